@@ -0,0 +1,247 @@
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import type {
+  BudgetAlert,
+  BudgetAlertLevel,
+  BudgetAlertListener,
+  BudgetDefinition,
+  BudgetMetric,
+  BudgetScope,
+  LiveUsage,
+} from './types.ts';
+import { attributeRepeatedUsage, liveUsageFromRow } from './utils.ts';
+
+export const DEFAULT_BUDGET_WARNING_RATIO = 0.8;
+
+// A session quiet for this long is not expected to stream its messages again.
+export const BUDGET_SESSION_IDLE_MS = 60 * 60 * 1000;
+
+interface UsageTotals {
+  tokens: number;
+  cost: number;
+}
+
+interface BudgetTrackerState {
+  budgets: BudgetDefinition[];
+  listeners: Set<BudgetAlertListener>;
+  dayStart: number;
+  messages: Map<string, LiveUsage>;
+  totals: Map<BudgetScope, Map<string, UsageTotals>>;
+  alerted: Set<string>;
+}
+
+export function startOfLocalDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+export const budgetTracker: BudgetTrackerState = {
+  budgets: [],
+  listeners: new Set(),
+  dayStart: startOfLocalDay(Date.now()),
+  messages: new Map(),
+  totals: new Map(),
+  alerted: new Set(),
+};
+
+export function onBudgetAlert(listener: BudgetAlertListener): () => void {
+  budgetTracker.listeners.add(listener);
+  return () => {
+    budgetTracker.listeners.delete(listener);
+  };
+}
+
+export function setBudgets(budgets: BudgetDefinition[], now = Date.now()): void {
+  budgetTracker.budgets = budgets.map((budget) => ({ ...budget }));
+  budgetTracker.alerted.clear();
+  rollDay(now);
+  evaluateAllBudgets(now);
+}
+
+export function clearBudgets(): void {
+  budgetTracker.budgets = [];
+  budgetTracker.alerted.clear();
+}
+
+export function resetBudgetUsage(now = Date.now()): void {
+  budgetTracker.dayStart = startOfLocalDay(now);
+  budgetTracker.messages.clear();
+  budgetTracker.totals.clear();
+  budgetTracker.alerted.clear();
+}
+
+export function totalBudgetTokens(tokens: SessionUsageData['tokens']): number {
+  return tokens.input + tokens.output + (tokens.cacheRead ?? 0) + (tokens.cacheWrite ?? 0);
+}
+
+function isDayScoped(scope: BudgetScope): boolean {
+  return scope !== 'session';
+}
+
+function budgetKey(scope: BudgetScope, usage: LiveUsage): string | undefined {
+  switch (scope) {
+    case 'session':
+      return usage.sessionId;
+    case 'project':
+      return usage.projectPath;
+    case 'day':
+      return 'day';
+    case 'model':
+      return usage.modelId;
+  }
+}
+
+const BUDGET_SCOPES: BudgetScope[] = ['session', 'project', 'day', 'model'];
+
+const DAY_SCOPES = BUDGET_SCOPES.filter(isDayScoped);
+
+function applyUsage(usage: LiveUsage, sign: 1 | -1, scopes = BUDGET_SCOPES): void {
+  for (const scope of scopes) {
+    if (isDayScoped(scope) && usage.timestamp < budgetTracker.dayStart) continue;
+
+    const key = budgetKey(scope, usage);
+    if (key === undefined) continue;
+
+    let scopeTotals = budgetTracker.totals.get(scope);
+    if (!scopeTotals) {
+      scopeTotals = new Map();
+      budgetTracker.totals.set(scope, scopeTotals);
+    }
+
+    const totals = scopeTotals.get(key) ?? { tokens: 0, cost: 0 };
+    totals.tokens += sign * totalBudgetTokens(usage.tokens);
+    totals.cost += sign * (usage.cost ?? 0);
+    scopeTotals.set(key, totals);
+  }
+}
+
+// Messages from before the day are only kept while their session is still
+// active, so that a repeat of one is not counted twice in the session total.
+function pruneMessages(dayStart: number, now: number): void {
+  const lastActivity = new Map<string, number>();
+  for (const usage of budgetTracker.messages.values()) {
+    lastActivity.set(usage.sessionId, Math.max(lastActivity.get(usage.sessionId) ?? 0, usage.timestamp));
+  }
+
+  for (const [messageId, usage] of budgetTracker.messages) {
+    if (usage.timestamp < dayStart && lastActivity.get(usage.sessionId)! < now - BUDGET_SESSION_IDLE_MS) {
+      budgetTracker.messages.delete(messageId);
+    }
+  }
+}
+
+// Day, project and model budgets cover the current local day; when it ends their
+// totals are rebuilt from the messages already seen and their alerts re-armed.
+// Session totals span days and are kept as they are.
+function rollDay(now: number): void {
+  const dayStart = startOfLocalDay(now);
+  if (dayStart === budgetTracker.dayStart) return;
+
+  budgetTracker.dayStart = dayStart;
+  pruneMessages(dayStart, now);
+  for (const scope of DAY_SCOPES) {
+    budgetTracker.totals.delete(scope);
+  }
+  for (const usage of budgetTracker.messages.values()) {
+    applyUsage(usage, 1, DAY_SCOPES);
+  }
+
+  for (const budget of budgetTracker.budgets) {
+    if (!isDayScoped(budget.scope)) continue;
+    for (const alertKey of budgetTracker.alerted) {
+      if (alertKey.startsWith(`${budget.id}\0`)) {
+        budgetTracker.alerted.delete(alertKey);
+      }
+    }
+  }
+}
+
+function emitAlert(alert: BudgetAlert): void {
+  for (const listener of budgetTracker.listeners) {
+    listener(alert);
+  }
+}
+
+function checkThreshold(
+  budget: BudgetDefinition,
+  key: string,
+  metric: BudgetMetric,
+  value: number,
+  limit: number | undefined,
+  now: number,
+): void {
+  if (limit === undefined || !Number.isFinite(limit) || limit <= 0) return;
+
+  const warningRatio = budget.warningRatio ?? DEFAULT_BUDGET_WARNING_RATIO;
+  const level: BudgetAlertLevel | undefined = value >= limit
+    ? 'exceeded'
+    : value >= limit * warningRatio ? 'warning' : undefined;
+  if (!level) return;
+
+  const alertKey = `${budget.id}\0${key}\0${metric}`;
+  if (budgetTracker.alerted.has(`${alertKey}\0${level}`)) return;
+
+  budgetTracker.alerted.add(`${alertKey}\0${level}`);
+  if (level === 'exceeded') {
+    budgetTracker.alerted.add(`${alertKey}\0warning`);
+  }
+
+  emitAlert({ budgetId: budget.id, scope: budget.scope, key, level, metric, value, limit, timestamp: now });
+}
+
+function evaluateBudget(budget: BudgetDefinition, key: string, now: number): void {
+  if (budget.match !== undefined && budget.match !== key) return;
+
+  const totals = budgetTracker.totals.get(budget.scope)?.get(key);
+  if (!totals) return;
+
+  checkThreshold(budget, key, 'tokens', totals.tokens, budget.maxTokens, now);
+  checkThreshold(budget, key, 'cost', totals.cost, budget.maxCost, now);
+}
+
+function evaluateAllBudgets(now: number): void {
+  for (const budget of budgetTracker.budgets) {
+    for (const key of budgetTracker.totals.get(budget.scope)?.keys() ?? []) {
+      evaluateBudget(budget, key, now);
+    }
+  }
+}
+
+function storeUsage(usage: LiveUsage): LiveUsage {
+  const previous = budgetTracker.messages.get(usage.messageId);
+  const stored = attributeRepeatedUsage(previous, usage);
+
+  if (previous) {
+    applyUsage(previous, -1);
+  }
+  budgetTracker.messages.set(usage.messageId, stored);
+  applyUsage(stored, 1);
+  return stored;
+}
+
+export function recordBudgetUsage(usage: LiveUsage, now = Date.now()): void {
+  rollDay(now);
+  const stored = storeUsage(usage);
+
+  for (const budget of budgetTracker.budgets) {
+    if (isDayScoped(budget.scope) && stored.timestamp < budgetTracker.dayStart) continue;
+
+    const key = budgetKey(budget.scope, stored);
+    if (key !== undefined) {
+      evaluateBudget(budget, key, now);
+    }
+  }
+}
+
+export function seedBudgetUsage(rows: SessionUsageData[], now = Date.now()): void {
+  rollDay(now);
+
+  for (const row of rows) {
+    const usage = liveUsageFromRow(row);
+    if (usage) {
+      storeUsage(usage);
+    }
+  }
+
+  evaluateAllBudgets(now);
+}
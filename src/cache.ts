@@ -5,11 +5,13 @@ export const sessionCache: {
   lastCheck: number;
   lastResult: SessionUsageData[];
   lastLimit: number;
+  lastOffset: number;
   lastSince: number | undefined;
 } = {
   lastCheck: 0,
   lastResult: [],
   lastLimit: 0,
+  lastOffset: 0,
   lastSince: undefined,
 };
 
@@ -19,6 +21,18 @@ export const SESSION_AGGREGATE_CACHE_MAX = 10_000;
 
 export const sessionAggregateCache = new Map<string, SessionAggregateCacheEntry>();
 
+export const sessionAggregateGeneration = { value: 0 };
+
+export function setSessionAggregate(filePath: string, entry: SessionAggregateCacheEntry): void {
+  sessionAggregateCache.set(filePath, entry);
+  sessionAggregateGeneration.value++;
+}
+
+export function clearSessionAggregates(): void {
+  sessionAggregateCache.clear();
+  sessionAggregateGeneration.value++;
+}
+
 export function evictSessionAggregateCache(): void {
   if (sessionAggregateCache.size <= SESSION_AGGREGATE_CACHE_MAX) return;
 
@@ -29,9 +43,52 @@ export function evictSessionAggregateCache(): void {
   for (let i = 0; i < toEvict; i++) {
     sessionAggregateCache.delete(entries[i]![0]);
   }
+  sessionAggregateGeneration.value++;
 }
 
-export const sessionMetadataIndex = new Map<string, {
+export interface SessionFileMetadata {
   mtimeMs: number;
+  size: number;
   sessionId: string;
-}>();
+  dev: number;
+  ino: number;
+}
+
+export const sessionMetadataIndex = new Map<string, SessionFileMetadata>();
+
+export const sessionFilesById = new Map<string, Set<string>>();
+
+export function indexSessionFile(filePath: string, metadata: SessionFileMetadata): void {
+  const previous = sessionMetadataIndex.get(filePath);
+  if (previous && previous.sessionId !== metadata.sessionId) {
+    sessionFilesById.get(previous.sessionId)?.delete(filePath);
+  }
+
+  sessionMetadataIndex.set(filePath, metadata);
+
+  let filePaths = sessionFilesById.get(metadata.sessionId);
+  if (!filePaths) {
+    filePaths = new Set();
+    sessionFilesById.set(metadata.sessionId, filePaths);
+  }
+  filePaths.add(filePath);
+}
+
+export function unindexSessionFile(filePath: string): void {
+  const metadata = sessionMetadataIndex.get(filePath);
+  sessionMetadataIndex.delete(filePath);
+  if (sessionAggregateCache.delete(filePath)) {
+    sessionAggregateGeneration.value++;
+  }
+  if (!metadata) return;
+
+  const filePaths = sessionFilesById.get(metadata.sessionId);
+  filePaths?.delete(filePath);
+  if (filePaths?.size === 0) {
+    sessionFilesById.delete(metadata.sessionId);
+  }
+}
+
+export function getSessionFilePaths(sessionId: string): string[] {
+  return Array.from(sessionFilesById.get(sessionId) ?? []);
+}
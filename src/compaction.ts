@@ -0,0 +1,69 @@
+import type { ClaudeCodeUsageInfo, CompactionEvent, CompactionState } from './types.ts';
+
+export function createCompactionState(): CompactionState {
+  return {
+    messageEvents: new Map(),
+  };
+}
+
+export function cloneCompactionState(state: CompactionState): CompactionState {
+  return { ...state, messageEvents: new Map(state.messageEvents) };
+}
+
+export function contextTokens(usage: ClaudeCodeUsageInfo): number {
+  return usage.input_tokens + usage.cache_read_input_tokens + usage.cache_creation_input_tokens;
+}
+
+function isCompactBoundary(entry: Record<string, unknown>): boolean {
+  return entry.type === 'system' && entry.subtype === 'compact_boundary';
+}
+
+function isCompactSummary(entry: Record<string, unknown>): boolean {
+  return entry.type === 'user' && entry.isCompactSummary === true;
+}
+
+// Claude Code marks a compaction with a `compact_boundary` system entry followed by a
+// user entry carrying the summary. Older transcripts only have the summary entry.
+export function trackCompactionBoundary(state: CompactionState, entry: unknown, timestamp: number): void {
+  if (!entry || typeof entry !== 'object') return;
+
+  const candidate = entry as Record<string, unknown>;
+  if (isCompactSummary(candidate) && state.pending) return;
+  if (!isCompactBoundary(candidate) && !isCompactSummary(candidate)) return;
+
+  const compactMetadata = (candidate.compactMetadata ?? {}) as { trigger?: unknown; preTokens?: unknown };
+  const event: CompactionEvent = {
+    timestamp,
+    preTokensInferred: typeof compactMetadata.preTokens !== 'number',
+  };
+  if (typeof compactMetadata.trigger === 'string') {
+    event.trigger = compactMetadata.trigger;
+  }
+
+  const preTokens = typeof compactMetadata.preTokens === 'number' ? compactMetadata.preTokens : state.lastContextTokens;
+  if (preTokens !== undefined) {
+    event.preTokens = preTokens;
+  }
+
+  state.pending = event;
+}
+
+export function trackCompactionUsage(
+  state: CompactionState,
+  messageId: string,
+  usage: ClaudeCodeUsageInfo,
+): CompactionEvent | undefined {
+  const existing = state.messageEvents.get(messageId);
+  if (existing) return existing;
+
+  const tokens = contextTokens(usage);
+  state.lastContextTokens = tokens;
+
+  const pending = state.pending;
+  if (!pending) return undefined;
+
+  state.pending = undefined;
+  const event: CompactionEvent = { ...pending, postTokens: tokens };
+  state.messageEvents.set(messageId, event);
+  return event;
+}
@@ -0,0 +1,264 @@
+import { sessionAggregateGeneration } from './cache.ts';
+import type { SessionAggregateCacheEntry } from './types.ts';
+
+interface IndexedConversationFile {
+  aggregate: SessionAggregateCacheEntry;
+  messageIds: string[];
+}
+
+// The links between files are indexed so that a change only re-resolves the
+// chains it touches, and the other files keep their cached summaries.
+interface ContinuityState {
+  resolvedGeneration: number;
+  files: Map<string, IndexedConversationFile>;
+  tailOwners: Map<string, Set<string>>;
+  headChildren: Map<string, Set<string>>;
+  messageFiles: Map<string, Set<string>>;
+  chains: Map<string, Set<string>>;
+}
+
+export const continuity: ContinuityState = {
+  resolvedGeneration: -1,
+  files: new Map(),
+  tailOwners: new Map(),
+  headChildren: new Map(),
+  messageFiles: new Map(),
+  chains: new Map(),
+};
+
+interface ConversationFile {
+  filePath: string;
+  aggregate: SessionAggregateCacheEntry;
+  firstTimestamp: number;
+}
+
+function messageIdOf(row: { metadata?: Record<string, unknown> }): string | undefined {
+  const messageId = row.metadata?.messageId;
+  return typeof messageId === 'string' ? messageId : undefined;
+}
+
+function firstTimestamp(aggregate: SessionAggregateCacheEntry): number {
+  let first = Infinity;
+  for (const row of aggregate.usageRows) {
+    first = Math.min(first, row.timestamp);
+  }
+  return first;
+}
+
+// `--resume` and `--continue` start a new transcript that either copies the earlier
+// conversation (same message ids) or whose first entry points at the last entry of
+// the earlier file. Both link the files into one conversation; a copied message is
+// kept only in the earliest file that contains it.
+export function resolveConversations(aggregates: Map<string, SessionAggregateCacheEntry>): void {
+  const files: ConversationFile[] = Array.from(aggregates, ([filePath, aggregate]) => ({
+    filePath,
+    aggregate,
+    firstTimestamp: firstTimestamp(aggregate),
+  }));
+  files.sort((a, b) =>
+    a.firstTimestamp - b.firstTimestamp ||
+    a.aggregate.updatedAt - b.aggregate.updatedAt ||
+    a.filePath.localeCompare(b.filePath),
+  );
+
+  const order = new Map<string, number>();
+  const parents = new Map<string, string>();
+  const find = (filePath: string): string => {
+    let root = filePath;
+    while (parents.get(root) !== root) {
+      root = parents.get(root)!;
+    }
+    parents.set(filePath, root);
+    return root;
+  };
+  const union = (earlier: string, later: string): void => {
+    const earlierRoot = find(earlier);
+    const laterRoot = find(later);
+    if (earlierRoot === laterRoot) return;
+
+    const earlierIndex = order.get(earlierRoot)!;
+    const laterIndex = order.get(laterRoot)!;
+    if (earlierIndex <= laterIndex) {
+      parents.set(laterRoot, earlierRoot);
+    } else {
+      parents.set(earlierRoot, laterRoot);
+    }
+  };
+
+  const tailOwners = new Map<string, string>();
+  files.forEach((file, index) => {
+    parents.set(file.filePath, file.filePath);
+    order.set(file.filePath, index);
+    if (file.aggregate.tailUuid) {
+      tailOwners.set(file.aggregate.tailUuid, file.filePath);
+    }
+  });
+
+  const messageOwners = new Map<string, string>();
+  const duplicates = new Map<string, Set<string>>();
+  for (const file of files) {
+    const headParent = file.aggregate.headParentUuid;
+    const previousFile = headParent ? tailOwners.get(headParent) : undefined;
+    if (previousFile && previousFile !== file.filePath) {
+      union(previousFile, file.filePath);
+    }
+
+    for (const row of file.aggregate.usageRows) {
+      const messageId = messageIdOf(row);
+      if (!messageId) continue;
+
+      const owner = messageOwners.get(messageId);
+      if (owner === undefined) {
+        messageOwners.set(messageId, file.filePath);
+      } else if (owner !== file.filePath) {
+        union(owner, file.filePath);
+        let fileDuplicates = duplicates.get(file.filePath);
+        if (!fileDuplicates) {
+          fileDuplicates = new Set();
+          duplicates.set(file.filePath, fileDuplicates);
+        }
+        fileDuplicates.add(messageId);
+      }
+    }
+  }
+
+  for (const file of files) {
+    const root = aggregates.get(find(file.filePath))!;
+    const conversationId = root.sessionId ?? file.aggregate.sessionId;
+    const fileDuplicates = duplicates.get(file.filePath);
+
+    file.aggregate.conversationId = conversationId;
+    file.aggregate.summary = undefined;
+    if (conversationId !== undefined) {
+      for (const row of file.aggregate.usageRows) {
+        row.metadata ??= {};
+        row.metadata.conversationId = conversationId;
+      }
+    }
+    file.aggregate.visibleRows = fileDuplicates
+      ? file.aggregate.usageRows.filter((row) => !fileDuplicates.has(messageIdOf(row)!))
+      : file.aggregate.usageRows;
+  }
+}
+
+function addLink(links: Map<string, Set<string>>, key: string, filePath: string): void {
+  let filePaths = links.get(key);
+  if (!filePaths) {
+    filePaths = new Set();
+    links.set(key, filePaths);
+  }
+  filePaths.add(filePath);
+}
+
+function removeLink(links: Map<string, Set<string>>, key: string, filePath: string): void {
+  const filePaths = links.get(key);
+  filePaths?.delete(filePath);
+  if (filePaths?.size === 0) {
+    links.delete(key);
+  }
+}
+
+function indexConversationFile(filePath: string, aggregate: SessionAggregateCacheEntry): void {
+  const messageIds = Array.from(new Set(aggregate.usageRows.map(messageIdOf).filter((id) => id !== undefined)));
+  continuity.files.set(filePath, { aggregate, messageIds });
+  if (aggregate.tailUuid) addLink(continuity.tailOwners, aggregate.tailUuid, filePath);
+  if (aggregate.headParentUuid) addLink(continuity.headChildren, aggregate.headParentUuid, filePath);
+  for (const messageId of messageIds) {
+    addLink(continuity.messageFiles, messageId, filePath);
+  }
+}
+
+function unindexConversationFile(filePath: string): void {
+  const indexed = continuity.files.get(filePath);
+  if (!indexed) return;
+
+  continuity.files.delete(filePath);
+  if (indexed.aggregate.tailUuid) removeLink(continuity.tailOwners, indexed.aggregate.tailUuid, filePath);
+  if (indexed.aggregate.headParentUuid) removeLink(continuity.headChildren, indexed.aggregate.headParentUuid, filePath);
+  for (const messageId of indexed.messageIds) {
+    removeLink(continuity.messageFiles, messageId, filePath);
+  }
+}
+
+// Aggregates are replaced rather than updated in place, so a different object
+// under a path means the file changed.
+function syncConversationIndex(aggregates: Map<string, SessionAggregateCacheEntry>): Set<string> {
+  const changed = new Set<string>();
+  for (const [filePath, indexed] of continuity.files) {
+    if (aggregates.get(filePath) !== indexed.aggregate) {
+      unindexConversationFile(filePath);
+      changed.add(filePath);
+    }
+  }
+  for (const [filePath, aggregate] of aggregates) {
+    if (!continuity.files.has(filePath)) {
+      indexConversationFile(filePath, aggregate);
+      changed.add(filePath);
+    }
+  }
+  return changed;
+}
+
+// The chains a changed file belonged to and the chains it links to now.
+function collectAffectedFiles(changed: Set<string>, aggregates: Map<string, SessionAggregateCacheEntry>): Set<string> {
+  const affected = new Set<string>();
+  const queue: string[] = [];
+  const visit = (filePath: string): void => {
+    if (affected.has(filePath) || !aggregates.has(filePath)) return;
+    affected.add(filePath);
+    queue.push(filePath);
+  };
+
+  for (const filePath of changed) {
+    for (const member of continuity.chains.get(filePath) ?? []) {
+      visit(member);
+    }
+    continuity.chains.get(filePath)?.delete(filePath);
+    continuity.chains.delete(filePath);
+    visit(filePath);
+  }
+
+  while (queue.length > 0) {
+    const filePath = queue.pop()!;
+    for (const member of continuity.chains.get(filePath) ?? []) {
+      visit(member);
+    }
+
+    const indexed = continuity.files.get(filePath)!;
+    const { headParentUuid, tailUuid } = indexed.aggregate;
+    for (const linked of headParentUuid ? continuity.tailOwners.get(headParentUuid) ?? [] : []) {
+      visit(linked);
+    }
+    for (const linked of tailUuid ? continuity.headChildren.get(tailUuid) ?? [] : []) {
+      visit(linked);
+    }
+    for (const messageId of indexed.messageIds) {
+      for (const linked of continuity.messageFiles.get(messageId) ?? []) {
+        visit(linked);
+      }
+    }
+  }
+  return affected;
+}
+
+export function resolveConversationsIfChanged(aggregates: Map<string, SessionAggregateCacheEntry>): void {
+  if (continuity.resolvedGeneration === sessionAggregateGeneration.value) return;
+
+  const affected = collectAffectedFiles(syncConversationIndex(aggregates), aggregates);
+  if (affected.size > 0) {
+    resolveConversations(new Map(Array.from(affected, (filePath) => [filePath, aggregates.get(filePath)!])));
+
+    const chains = new Map<string, Set<string>>();
+    for (const filePath of affected) {
+      const key = aggregates.get(filePath)!.conversationId ?? filePath;
+      let chain = chains.get(key);
+      if (!chain) {
+        chain = new Set();
+        chains.set(key, chain);
+      }
+      chain.add(filePath);
+      continuity.chains.set(filePath, chain);
+    }
+  }
+  continuity.resolvedGeneration = sessionAggregateGeneration.value;
+}
@@ -0,0 +1,240 @@
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import { estimateCost, getModelPricing } from './pricing.ts';
+import type {
+  CacheEfficiency,
+  CacheEfficiencyReport,
+  ProjectCacheEfficiency,
+  SessionCacheEfficiency,
+} from './types.ts';
+
+export const CACHE_TTL_5M_MS = 5 * 60 * 1000;
+
+export const CACHE_TTL_1H_MS = 60 * 60 * 1000;
+
+// A warm cache that serves less than this share of the previous prompt was rebuilt.
+export const CACHE_INVALIDATION_RATIO = 0.5;
+
+// Anthropic's standard multipliers over the input rate, for models without pricing.
+const DEFAULT_CACHE_READ_MULTIPLIER = 0.1;
+const DEFAULT_CACHE_WRITE_MULTIPLIER = 1.25;
+const DEFAULT_CACHE_WRITE_1H_MULTIPLIER = 2;
+
+interface CacheTurn {
+  messageId: string;
+  modelId: string;
+  timestamp: number;
+  cacheRead: number;
+  cacheWrite: number;
+  cacheWrite1h: number;
+}
+
+function emptyEfficiency(): CacheEfficiency {
+  return {
+    messageCount: 0,
+    promptTokens: 0,
+    cacheRead: 0,
+    cacheWrite: 0,
+    hitRatio: 0,
+    tokensSaved: 0,
+    wastedCacheWrite: 0,
+    wastedCacheWrite1h: 0,
+    invalidations: [],
+  };
+}
+
+function toTurn(row: SessionUsageData): CacheTurn {
+  const cacheWrite = row.tokens.cacheWrite ?? 0;
+  const reported1h = row.metadata?.cacheWrite1h;
+  return {
+    messageId: typeof row.metadata?.messageId === 'string' ? row.metadata.messageId : '',
+    modelId: row.modelId,
+    timestamp: row.timestamp,
+    cacheRead: row.tokens.cacheRead ?? 0,
+    cacheWrite,
+    cacheWrite1h: typeof reported1h === 'number' ? Math.min(reported1h, cacheWrite) : 0,
+  };
+}
+
+function threadKey(row: SessionUsageData): string {
+  const root = row.metadata?.sidechainRootUuid;
+  return typeof root === 'string' ? root : '';
+}
+
+// Savings are counted in input-token equivalents: a cache read costs a fraction of
+// an input token and a cache write costs more than one.
+function inputEquivalentSaving(row: SessionUsageData, turn: CacheTurn): number {
+  const pricing = getModelPricing(row.modelId);
+  const input = pricing?.input;
+  const readMultiplier = input ? (pricing.cacheRead ?? input) / input : DEFAULT_CACHE_READ_MULTIPLIER;
+  const writeMultiplier = input ? (pricing.cacheWrite ?? input) / input : DEFAULT_CACHE_WRITE_MULTIPLIER;
+  const write1hMultiplier = input ? (pricing.cacheWrite1h ?? input * 2) / input : DEFAULT_CACHE_WRITE_1H_MULTIPLIER;
+
+  return turn.cacheRead * (1 - readMultiplier)
+    - (turn.cacheWrite - turn.cacheWrite1h) * (writeMultiplier - 1)
+    - turn.cacheWrite1h * (write1hMultiplier - 1);
+}
+
+function addRow(efficiency: CacheEfficiency, row: SessionUsageData, turn: CacheTurn): void {
+  efficiency.messageCount++;
+  efficiency.promptTokens += row.tokens.input + turn.cacheRead + turn.cacheWrite;
+  efficiency.cacheRead += turn.cacheRead;
+  efficiency.cacheWrite += turn.cacheWrite;
+  efficiency.tokensSaved += inputEquivalentSaving(row, turn);
+
+  if (row.cost !== undefined) {
+    const uncached = estimateCost(row.modelId, {
+      input: row.tokens.input + turn.cacheRead + turn.cacheWrite,
+      output: row.tokens.output,
+    });
+    if (uncached.cost !== undefined) {
+      efficiency.costSaved = (efficiency.costSaved ?? 0) + uncached.cost - row.cost;
+    }
+  }
+}
+
+// The written tokens extend the prefix the previous turn read, and 1-hour
+// breakpoints come before 5-minute ones, so the next read is credited to the
+// 1-hour part first. Only 1-hour writes survive a gap longer than five minutes.
+function consumeWrite(efficiency: CacheEfficiency, previous: CacheTurn, next: CacheTurn | undefined, now: number): void {
+  if (previous.cacheWrite === 0) return;
+
+  let used = 0;
+  if (next) {
+    const gap = next.timestamp - previous.timestamp;
+    const read = next.modelId === previous.modelId
+      ? Math.min(Math.max(next.cacheRead - previous.cacheRead, 0), previous.cacheWrite)
+      : 0;
+    used = gap <= CACHE_TTL_5M_MS ? read : gap <= CACHE_TTL_1H_MS ? Math.min(read, previous.cacheWrite1h) : 0;
+  } else {
+    // Writes from the last turn still inside their TTL may yet be read.
+    const age = now - previous.timestamp;
+    if (age <= CACHE_TTL_5M_MS) return;
+    if (age <= CACHE_TTL_1H_MS) {
+      efficiency.wastedCacheWrite += previous.cacheWrite - previous.cacheWrite1h;
+      return;
+    }
+  }
+
+  const used1h = Math.min(used, previous.cacheWrite1h);
+  efficiency.wastedCacheWrite += previous.cacheWrite - used;
+  efficiency.wastedCacheWrite1h += previous.cacheWrite1h - used1h;
+}
+
+function checkInvalidation(
+  efficiency: CacheEfficiency,
+  sessionId: string,
+  row: SessionUsageData,
+  previous: CacheTurn,
+  turn: CacheTurn,
+): void {
+  if (turn.timestamp - previous.timestamp > CACHE_TTL_5M_MS || row.metadata?.compaction) return;
+
+  const expectedCacheRead = previous.cacheRead + previous.cacheWrite;
+  if (expectedCacheRead === 0 || turn.cacheWrite === 0) return;
+  if (turn.cacheRead >= expectedCacheRead * CACHE_INVALIDATION_RATIO) return;
+
+  efficiency.invalidations.push({
+    sessionId,
+    messageId: turn.messageId,
+    timestamp: turn.timestamp,
+    reason: turn.modelId === previous.modelId ? 'prefix-changed' : 'model-switch',
+    expectedCacheRead,
+    cacheRead: turn.cacheRead,
+    cacheWrite: turn.cacheWrite,
+  });
+}
+
+function finish<T extends CacheEfficiency>(efficiency: T): T {
+  efficiency.hitRatio = efficiency.promptTokens > 0 ? efficiency.cacheRead / efficiency.promptTokens : 0;
+  return efficiency;
+}
+
+export function analyzeSessionCache(sessionId: string, rows: SessionUsageData[], now = Date.now()): SessionCacheEfficiency {
+  const efficiency: SessionCacheEfficiency = { sessionId, ...emptyEfficiency() };
+  const projectPath = rows.find((row) => row.projectPath)?.projectPath;
+  if (projectPath) {
+    efficiency.projectPath = projectPath;
+  }
+
+  // The main conversation and each subagent keep their own cached prefix.
+  const threads = new Map<string, SessionUsageData[]>();
+  for (const row of rows) {
+    const key = threadKey(row);
+    const thread = threads.get(key);
+    if (thread) {
+      thread.push(row);
+    } else {
+      threads.set(key, [row]);
+    }
+  }
+
+  for (const thread of threads.values()) {
+    thread.sort((a, b) => a.timestamp - b.timestamp);
+
+    let previous: CacheTurn | undefined;
+    for (const row of thread) {
+      const turn = toTurn(row);
+      addRow(efficiency, row, turn);
+      if (previous) {
+        consumeWrite(efficiency, previous, turn, now);
+        checkInvalidation(efficiency, sessionId, row, previous, turn);
+      }
+      previous = turn;
+    }
+    if (previous) {
+      consumeWrite(efficiency, previous, undefined, now);
+    }
+  }
+
+  efficiency.invalidations.sort((a, b) => a.timestamp - b.timestamp);
+  return finish(efficiency);
+}
+
+function mergeEfficiency(target: CacheEfficiency, source: CacheEfficiency): void {
+  target.messageCount += source.messageCount;
+  target.promptTokens += source.promptTokens;
+  target.cacheRead += source.cacheRead;
+  target.cacheWrite += source.cacheWrite;
+  target.tokensSaved += source.tokensSaved;
+  target.wastedCacheWrite += source.wastedCacheWrite;
+  target.wastedCacheWrite1h += source.wastedCacheWrite1h;
+  target.invalidations.push(...source.invalidations);
+  if (source.costSaved !== undefined) {
+    target.costSaved = (target.costSaved ?? 0) + source.costSaved;
+  }
+}
+
+export function analyzeCacheEfficiency(rows: SessionUsageData[], now = Date.now()): CacheEfficiencyReport {
+  const rowsBySession = new Map<string, SessionUsageData[]>();
+  for (const row of rows) {
+    const sessionRows = rowsBySession.get(row.sessionId);
+    if (sessionRows) {
+      sessionRows.push(row);
+    } else {
+      rowsBySession.set(row.sessionId, [row]);
+    }
+  }
+
+  const sessions: SessionCacheEfficiency[] = [];
+  const projects = new Map<string, ProjectCacheEfficiency>();
+  for (const [sessionId, sessionRows] of rowsBySession) {
+    const session = analyzeSessionCache(sessionId, sessionRows, now);
+    sessions.push(session);
+    if (!session.projectPath) continue;
+
+    let project = projects.get(session.projectPath);
+    if (!project) {
+      project = { projectPath: session.projectPath, sessionCount: 0, ...emptyEfficiency() };
+      projects.set(session.projectPath, project);
+    }
+    project.sessionCount++;
+    mergeEfficiency(project, session);
+  }
+
+  for (const project of projects.values()) {
+    project.invalidations.sort((a, b) => a.timestamp - b.timestamp);
+    finish(project);
+  }
+
+  return { sessions, projects: Array.from(projects.values()) };
+}
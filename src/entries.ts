@@ -0,0 +1,111 @@
+import { createCompactionState, trackCompactionBoundary, trackCompactionUsage } from './compaction.ts';
+import { estimateCost } from './pricing.ts';
+import { createToolUseState, toolMetadata, trackToolUse } from './tools.ts';
+import type { ClaudeCodeAssistantEntry, CompactionState, ToolUseState, UsageRecord } from './types.ts';
+import {
+  cacheWriteMetadata,
+  environmentMetadata,
+  sidechainMetadata,
+  splitCacheWrite,
+  trackSidechainRoot,
+  type SidechainRoots,
+} from './utils.ts';
+
+export interface EntryContext {
+  sidechainRoots: SidechainRoots;
+  toolUse: ToolUseState;
+  compaction: CompactionState;
+  fallbackTimestamp: number;
+}
+
+export function toTimestamp(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export function isTokenBearingAssistant(entry: unknown): entry is ClaudeCodeAssistantEntry {
+  if (!entry || typeof entry !== 'object') return false;
+
+  const candidate = entry as Partial<ClaudeCodeAssistantEntry>;
+  if (candidate.type !== 'assistant') return false;
+  if (!candidate.message || typeof candidate.message !== 'object') return false;
+
+  const model = candidate.message.model;
+  const usage = candidate.message.usage;
+  const messageId = candidate.message.id;
+
+  if (typeof model !== 'string' || model.trim().length === 0) return false;
+  if (!usage || typeof usage !== 'object') return false;
+  if (typeof usage.input_tokens !== 'number' || usage.input_tokens <= 0) return false;
+  if (typeof usage.output_tokens !== 'number') return false;
+  if (typeof usage.cache_creation_input_tokens !== 'number') return false;
+  if (typeof usage.cache_read_input_tokens !== 'number') return false;
+  if (typeof messageId !== 'string' || messageId.length === 0) return false;
+
+  return true;
+}
+
+export function createEntryContext(
+  fallbackTimestamp: number,
+  sidechainRoots: SidechainRoots = new Map(),
+  toolUse: ToolUseState = createToolUseState(),
+  compaction: CompactionState = createCompactionState(),
+): EntryContext {
+  return { sidechainRoots, toolUse, compaction, fallbackTimestamp };
+}
+
+export function normalizeEntry(entry: unknown, context: EntryContext): UsageRecord | undefined {
+  const sidechainRoot = trackSidechainRoot(context.sidechainRoots, entry);
+  trackToolUse(context.toolUse, entry, sidechainRoot ?? '');
+  if (!entry || typeof entry !== 'object') return undefined;
+
+  const timestamp = toTimestamp((entry as { timestamp?: string }).timestamp, context.fallbackTimestamp);
+  if (sidechainRoot === undefined) {
+    trackCompactionBoundary(context.compaction, entry, timestamp);
+  }
+  if (!isTokenBearingAssistant(entry)) return undefined;
+
+  const { input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens } = entry.message.usage;
+
+  const tokens: UsageRecord['tokens'] = {
+    input: input_tokens,
+    output: output_tokens,
+  };
+  if (cache_read_input_tokens > 0) {
+    tokens.cacheRead = cache_read_input_tokens;
+  }
+  if (cache_creation_input_tokens > 0) {
+    tokens.cacheWrite = cache_creation_input_tokens;
+  }
+
+  const compaction = sidechainRoot === undefined
+    ? trackCompactionUsage(context.compaction, entry.message.id, entry.message.usage)
+    : undefined;
+
+  const cacheWriteSplit = splitCacheWrite(entry.message.usage);
+  const { cost, costStatus } = estimateCost(entry.message.model, {
+    ...tokens,
+    cacheWrite1h: cacheWriteSplit.ephemeral1h,
+  });
+
+  const record: UsageRecord = {
+    messageId: entry.message.id,
+    modelId: entry.message.model,
+    tokens,
+    timestamp,
+    metadata: {
+      costStatus,
+      ...cacheWriteMetadata(cacheWriteSplit),
+      ...sidechainMetadata(sidechainRoot),
+      ...environmentMetadata(entry),
+      ...toolMetadata(context.toolUse, entry.message.id),
+      ...(compaction ? { compaction } : {}),
+    },
+  };
+  if (cost !== undefined) {
+    record.cost = cost;
+  }
+
+  return record;
+}
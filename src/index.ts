@@ -1,15 +1,150 @@
-import * as fs from 'fs';
 import {
   createAgentPlugin,
   type AgentFetchContext,
   type PluginContext,
+  type PluginLogger,
+  type PluginStorage,
   type SessionParseOptions,
   type SessionUsageData,
 } from '@tokentop/plugin-sdk';
+import {
+  DEFAULT_BUDGET_WARNING_RATIO,
+  clearBudgets,
+  onBudgetAlert,
+  seedBudgetUsage,
+  setBudgets,
+  startOfLocalDay,
+} from './budgets.ts';
 import { CACHE_TTL_MS, SESSION_AGGREGATE_CACHE_MAX, sessionAggregateCache, sessionCache, sessionMetadataIndex } from './cache.ts';
-import { parseSessionsFromProjects } from './parser.ts';
-import { CLAUDE_CODE_HOME, CLAUDE_CODE_PROJECTS_PATH } from './paths.ts';
-import { RECONCILIATION_INTERVAL_MS, startActivityWatch, stopActivityWatch } from './watcher.ts';
+import { CACHE_INVALIDATION_RATIO, analyzeCacheEfficiency } from './efficiency.ts';
+import { parseProjectSummaries, parseSessionSummaries, parseSessionsFromProjects } from './parser.ts';
+import {
+  CLAUDE_CODE_HOME,
+  CLAUDE_CODE_PROJECTS_PATH,
+  CLAUDE_CONFIG_DIR_ENV,
+  configureClaudeCodeHomes,
+  getClaudeCodeHomes,
+  isAnyClaudeCodeHomePresent,
+  isWithinPaths,
+  resolveClaudeCodeHomes,
+  resolveFilesystemPaths,
+} from './paths.ts';
+import {
+  PARSER_SCHEMA_VERSION,
+  configurePersistentCache,
+  flushPersistentCache,
+} from './persistence.ts';
+import {
+  BUNDLED_MODEL_PRICING,
+  clearModelPricingOverrides,
+  estimateCost,
+  getModelPricing,
+  setModelPricingOverrides,
+} from './pricing.ts';
+import { configureProjectIdentity } from './projects.ts';
+import {
+  DEFAULT_BURN_RATE_WINDOWS_MINUTES,
+  configureBurnRateWindows,
+  getBurnRates,
+  projectSessionUsage,
+  seedRateUsage,
+} from './rates.ts';
+import type {
+  CacheEfficiencyReport,
+  ClaudeCodeSessionParseOptions,
+  ProjectSummary,
+  SessionSummary,
+  UsageWindowOptions,
+  UsageWindowReport,
+} from './types.ts';
+import {
+  DEFAULT_POLL_INTERVAL_MS,
+  DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+  DEFAULT_WATCH_DEBOUNCE_MS,
+  DEFAULT_WATCH_MAX_LATENCY_MS,
+  RECONCILIATION_INTERVAL_MS,
+  configurePolling,
+  configureSessionIdleTimeout,
+  configureWatchDebounce,
+  getWatchMode,
+  onSessionLifecycle,
+  requestFullReconciliation,
+  restartWatchers,
+  startActivityWatch,
+  stopActivityWatch,
+  stopSessionWatcher,
+} from './watcher.ts';
+import { DEFAULT_USAGE_WINDOW_HISTORY_MS, USAGE_WINDOW_MS, computeUsageWindows } from './windows.ts';
+
+// Declared before any config arrives and never changed afterwards, since the host
+// approved exactly these paths. Configured homes outside them are skipped.
+const filesystemPaths = resolveFilesystemPaths();
+let skippedHomes = '';
+
+function declaredHomesConfig(config: Record<string, unknown>, logger?: PluginLogger): Record<string, unknown> {
+  const homes = resolveClaudeCodeHomes(config);
+  const declared = homes.filter((home) => isWithinPaths(home, filesystemPaths));
+  const skipped = homes.filter((home) => !declared.includes(home));
+
+  const key = skipped.join('\n');
+  if (key !== skippedHomes && skipped.length > 0) {
+    logger?.warn('Claude Code: skipping config directories outside the declared filesystem permissions', { skipped });
+  }
+  skippedHomes = key;
+
+  return { configDirs: declared.length > 0 ? declared : [CLAUDE_CODE_HOME] };
+}
+
+// Only full plugin contexts carry the host storage the persistent cache lives in.
+function applyConfig(config: Record<string, unknown>, logger?: PluginLogger, storage?: PluginStorage): void {
+  configurePersistentCache(config, storage);
+  configureSessionIdleTimeout(config);
+  configurePolling(config);
+  configureWatchDebounce(config);
+  configureBurnRateWindows(config);
+  if (configureProjectIdentity(config)) {
+    // Cached sessions pick up their new project on the next full sweep.
+    sessionCache.lastCheck = 0;
+    requestFullReconciliation();
+  }
+  if (!configureClaudeCodeHomes(declaredHomesConfig(config, logger))) return;
+
+  sessionCache.lastCheck = 0;
+  sessionCache.lastResult = [];
+  restartWatchers();
+}
+
+// Budget totals and burn rates for the current day are rebuilt from the
+// transcripts so that a restarted watch does not start counting from zero.
+async function seedLiveUsage(ctx: PluginContext): Promise<void> {
+  const rows = await parseSessionsFromProjects({ since: startOfLocalDay(Date.now()), limit: Number.MAX_SAFE_INTEGER }, ctx);
+  seedBudgetUsage(rows);
+  seedRateUsage(rows);
+}
+
+async function getSessionSummaries(options: ClaudeCodeSessionParseOptions, ctx: AgentFetchContext): Promise<SessionSummary[]> {
+  applyConfig(ctx.config, ctx.logger);
+  return parseSessionSummaries(options, ctx);
+}
+
+async function getProjectSummaries(options: ClaudeCodeSessionParseOptions, ctx: AgentFetchContext): Promise<ProjectSummary[]> {
+  applyConfig(ctx.config, ctx.logger);
+  return parseProjectSummaries(options, ctx);
+}
+
+async function getCacheEfficiency(options: ClaudeCodeSessionParseOptions, ctx: AgentFetchContext): Promise<CacheEfficiencyReport> {
+  applyConfig(ctx.config, ctx.logger);
+  return analyzeCacheEfficiency(await parseSessionsFromProjects(options, ctx));
+}
+
+async function getUsageWindows(options: UsageWindowOptions, ctx: AgentFetchContext): Promise<UsageWindowReport> {
+  applyConfig(ctx.config, ctx.logger);
+  const now = Date.now();
+  const since = options.since ?? now - DEFAULT_USAGE_WINDOW_HISTORY_MS;
+  // Rows from the window that was open at `since` are needed to place its start.
+  const rows = await parseSessionsFromProjects({ since: since - USAGE_WINDOW_MS, limit: Number.MAX_SAFE_INTEGER }, ctx);
+  return computeUsageWindows(rows, now, since);
+}
 
 const claudeCodeAgentPlugin = createAgentPlugin({
   id: 'claude-code',
@@ -25,10 +160,80 @@ const claudeCodeAgentPlugin = createAgentPlugin({
   permissions: {
     filesystem: {
       read: true,
-      paths: ['~/.claude'],
+      paths: filesystemPaths,
+    },
+    env: {
+      read: true,
+      vars: [CLAUDE_CONFIG_DIR_ENV],
+    },
+  },
+
+  configSchema: {
+    configDirs: {
+      type: 'string',
+      label: 'Claude Code config directories',
+      description: 'Comma-separated list of Claude Code homes to scan. Defaults to $CLAUDE_CONFIG_DIR or ~/.claude.',
+      default: '',
+    },
+    persistentCache: {
+      type: 'boolean',
+      label: 'Persist parsed sessions',
+      description: 'Keep parsed session rows in the plugin storage so unchanged transcripts are not re-read on the next launch.',
+      default: false,
+    },
+    detectGitRoots: {
+      type: 'boolean',
+      label: 'Group sessions by repository',
+      description: 'Look up the git repository each session was launched in and group its subdirectories into one project. Reads directories outside the Claude Code homes.',
+      default: false,
+    },
+    sessionIdleMinutes: {
+      type: 'number',
+      label: 'Session idle timeout (minutes)',
+      description: 'How long a session can go without new messages before the activity watcher reports it as idle.',
+      default: DEFAULT_SESSION_IDLE_TIMEOUT_MS / 60000,
+      min: 1,
+    },
+    pollIntervalSeconds: {
+      type: 'number',
+      label: 'Polling interval (seconds)',
+      description: 'How often session files are checked when file watching is unavailable and the plugin falls back to polling.',
+      default: DEFAULT_POLL_INTERVAL_MS / 1000,
+      min: 1,
+    },
+    watchDebounceMs: {
+      type: 'number',
+      label: 'Live update debounce (ms)',
+      description: 'How long a session file must be quiet before appended lines are read. Bursts of writes within the window are read once.',
+      default: DEFAULT_WATCH_DEBOUNCE_MS,
+      min: 0,
+    },
+    watchMaxLatencyMs: {
+      type: 'number',
+      label: 'Live update max latency (ms)',
+      description: 'Upper bound on how long a continuously written session file waits before it is read.',
+      default: DEFAULT_WATCH_MAX_LATENCY_MS,
+      min: 0,
+    },
+    burnRateWindowsMinutes: {
+      type: 'string',
+      label: 'Burn rate windows (minutes)',
+      description: 'Comma-separated windows, in minutes, over which per-session token burn rates are computed.',
+      default: DEFAULT_BURN_RATE_WINDOWS_MINUTES.join(','),
     },
   },
 
+  defaultConfig: {
+    configDirs: '',
+    persistentCache: false,
+    detectGitRoots: false,
+    sessionIdleMinutes: DEFAULT_SESSION_IDLE_TIMEOUT_MS / 60000,
+    pollIntervalSeconds: DEFAULT_POLL_INTERVAL_MS / 1000,
+    watchDebounceMs: DEFAULT_WATCH_DEBOUNCE_MS,
+    watchMaxLatencyMs: DEFAULT_WATCH_MAX_LATENCY_MS,
+    burnRateWindowsMinutes: DEFAULT_BURN_RATE_WINDOWS_MINUTES.join(','),
+  },
+
   agent: {
     name: 'Claude Code',
     command: 'claude',
@@ -43,32 +248,114 @@ const claudeCodeAgentPlugin = createAgentPlugin({
     multiProvider: false,
   },
 
-  startActivityWatch(_ctx: PluginContext, callback): void {
-    startActivityWatch(callback);
+  onConfigChange(config: Record<string, unknown>): void {
+    applyConfig(config);
+  },
+
+  async stop(): Promise<void> {
+    stopActivityWatch();
+    stopSessionWatcher();
+    await flushPersistentCache(true);
+  },
+
+  startActivityWatch(ctx: PluginContext, callback): void {
+    applyConfig(ctx.config, ctx.logger, ctx.storage);
+    void startActivityWatch(callback, ctx.logger);
+    void seedLiveUsage(ctx).catch((error: unknown) => {
+      ctx.logger.warn('Claude Code: failed to seed live usage', { error: String(error) });
+    });
   },
 
   stopActivityWatch(_ctx: PluginContext): void {
     stopActivityWatch();
   },
 
-  async isInstalled(_ctx: PluginContext): Promise<boolean> {
-    return fs.existsSync(CLAUDE_CODE_PROJECTS_PATH) || fs.existsSync(CLAUDE_CODE_HOME);
+  async isInstalled(ctx: PluginContext): Promise<boolean> {
+    applyConfig(ctx.config, ctx.logger, ctx.storage);
+    return isAnyClaudeCodeHomePresent();
   },
 
   async parseSessions(options: SessionParseOptions, ctx: AgentFetchContext): Promise<SessionUsageData[]> {
+    applyConfig(ctx.config, ctx.logger);
     return parseSessionsFromProjects(options, ctx);
   },
 });
 
 export {
+  BUNDLED_MODEL_PRICING,
+  CACHE_INVALIDATION_RATIO,
   CACHE_TTL_MS,
   CLAUDE_CODE_HOME,
   CLAUDE_CODE_PROJECTS_PATH,
+  DEFAULT_BUDGET_WARNING_RATIO,
+  DEFAULT_BURN_RATE_WINDOWS_MINUTES,
+  DEFAULT_POLL_INTERVAL_MS,
+  DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+  DEFAULT_USAGE_WINDOW_HISTORY_MS,
+  DEFAULT_WATCH_DEBOUNCE_MS,
+  DEFAULT_WATCH_MAX_LATENCY_MS,
+  PARSER_SCHEMA_VERSION,
   RECONCILIATION_INTERVAL_MS,
   SESSION_AGGREGATE_CACHE_MAX,
+  USAGE_WINDOW_MS,
+  clearBudgets,
+  clearModelPricingOverrides,
+  estimateCost,
+  getBurnRates,
+  getCacheEfficiency,
+  getClaudeCodeHomes,
+  getModelPricing,
+  getProjectSummaries,
+  getSessionSummaries,
+  getUsageWindows,
+  getWatchMode,
+  onBudgetAlert,
+  onSessionLifecycle,
+  projectSessionUsage,
   sessionAggregateCache,
   sessionCache,
   sessionMetadataIndex,
+  setBudgets,
+  setModelPricingOverrides,
 };
 
+export type { ClaudeCodeModelPricing, CostEstimate } from './pricing.ts';
+export type {
+  ActiveUsageWindow,
+  BudgetAlert,
+  BudgetAlertLevel,
+  BudgetAlertListener,
+  BudgetDefinition,
+  BudgetMetric,
+  BudgetScope,
+  BurnRateWindow,
+  CacheEfficiency,
+  CacheEfficiencyReport,
+  CacheInvalidation,
+  CacheInvalidationReason,
+  ClaudeCodeActivityUpdate,
+  ClaudeCodeSessionParseOptions,
+  CostStatus,
+  LiveUsage,
+  ProjectCacheEfficiency,
+  ProjectIdentity,
+  ProjectSummary,
+  SessionBurnRate,
+  SessionCacheEfficiency,
+  SessionLifecycleEvent,
+  SessionLifecycleEventType,
+  SessionLifecycleListener,
+  SessionModelSummary,
+  SessionSummary,
+  SessionTokenTotals,
+  TokenRates,
+  UsageCeiling,
+  UsageProjection,
+  UsageWindow,
+  UsageWindowOptions,
+  UsageWindowReport,
+  WatchMode,
+  WatchModeStatus,
+} from './types.ts';
+
 export default claudeCodeAgentPlugin;
@@ -0,0 +1,127 @@
+import * as fs from 'fs/promises';
+
+export const JSONL_READ_CHUNK_BYTES = 64 * 1024;
+
+const NEWLINE = 0x0a;
+
+export interface JsonlDecoder {
+  pending: Buffer[];
+  lines: number;
+  malformedLines: number;
+}
+
+export function createJsonlDecoder(remainder?: Buffer): JsonlDecoder {
+  return {
+    pending: remainder && remainder.length > 0 ? [remainder] : [],
+    lines: 0,
+    malformedLines: 0,
+  };
+}
+
+export function jsonlDecoderRemainder(decoder: JsonlDecoder): Buffer {
+  return decoder.pending.length === 1 ? decoder.pending[0]! : Buffer.concat(decoder.pending);
+}
+
+function parseJsonlText<T>(decoder: JsonlDecoder, text: string): T[] {
+  const rows: T[] = [];
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    decoder.lines++;
+    try {
+      rows.push(JSON.parse(trimmed) as T);
+    } catch {
+      decoder.malformedLines++;
+    }
+  }
+
+  return rows;
+}
+
+export function decodeJsonlChunk<T>(decoder: JsonlDecoder, chunk: Buffer): T[] {
+  const lastNewline = chunk.lastIndexOf(NEWLINE);
+  if (lastNewline < 0) {
+    if (chunk.length > 0) {
+      decoder.pending.push(Buffer.from(chunk));
+    }
+    return [];
+  }
+
+  const complete = decoder.pending.length > 0
+    ? Buffer.concat([...decoder.pending, chunk.subarray(0, lastNewline + 1)])
+    : chunk.subarray(0, lastNewline + 1);
+  decoder.pending = lastNewline + 1 < chunk.length ? [Buffer.from(chunk.subarray(lastNewline + 1))] : [];
+
+  return parseJsonlText<T>(decoder, complete.toString('utf-8'));
+}
+
+// The last line of a transcript may still be being written. If it does not parse
+// yet it stays pending instead of counting as malformed, so the read that brings
+// its newline either completes it or counts it then.
+export function flushJsonlDecoder<T>(decoder: JsonlDecoder): T[] {
+  if (decoder.pending.length === 0) return [];
+
+  const trimmed = jsonlDecoderRemainder(decoder).toString('utf-8').trim();
+  if (!trimmed) {
+    decoder.pending = [];
+    return [];
+  }
+
+  try {
+    const row = JSON.parse(trimmed) as T;
+    decoder.lines++;
+    decoder.pending = [];
+    return [row];
+  } catch {
+    return [];
+  }
+}
+
+export async function* readJsonlStream<T>(
+  source: string | fs.FileHandle,
+  decoder: JsonlDecoder = createJsonlDecoder(),
+  start = 0,
+  end?: number,
+): AsyncGenerator<T> {
+  let handle: fs.FileHandle;
+  if (typeof source === 'string') {
+    try {
+      handle = await fs.open(source, 'r');
+    } catch {
+      return;
+    }
+  } else {
+    handle = source;
+  }
+
+  try {
+    const buffer = Buffer.alloc(JSONL_READ_CHUNK_BYTES);
+    let position = start;
+
+    while (end === undefined || position < end) {
+      const length = end === undefined ? buffer.length : Math.min(buffer.length, end - position);
+      const { bytesRead } = await handle.read(buffer, 0, length, position);
+      if (bytesRead === 0) break;
+      position += bytesRead;
+
+      yield* decodeJsonlChunk<T>(decoder, buffer.subarray(0, bytesRead));
+    }
+
+    yield* flushJsonlDecoder<T>(decoder);
+  } finally {
+    if (typeof source === 'string') {
+      await handle.close();
+    }
+  }
+}
+
+export async function readFileRange(handle: fs.FileHandle, start: number, end: number): Promise<Buffer> {
+  const length = end - start;
+  if (length <= 0) return Buffer.alloc(0);
+
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, start);
+  return buffer.subarray(0, bytesRead);
+}
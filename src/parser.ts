@@ -1,11 +1,43 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import type { AgentFetchContext, SessionParseOptions, SessionUsageData } from '@tokentop/plugin-sdk';
-import { CACHE_TTL_MS, evictSessionAggregateCache, sessionAggregateCache, sessionCache, sessionMetadataIndex } from './cache.ts';
-import { CLAUDE_CODE_PROJECTS_PATH, getProjectDirs } from './paths.ts';
-import type { ClaudeCodeAssistantEntry } from './types.ts';
-import { extractProjectPath, readJsonlFile } from './utils.ts';
+import type { AgentFetchContext, SessionUsageData } from '@tokentop/plugin-sdk';
 import {
+  CACHE_TTL_MS,
+  evictSessionAggregateCache,
+  indexSessionFile,
+  sessionAggregateCache,
+  sessionCache,
+  sessionMetadataIndex,
+  setSessionAggregate,
+  unindexSessionFile,
+} from './cache.ts';
+import { createCompactionState } from './compaction.ts';
+import { resolveConversationsIfChanged } from './continuity.ts';
+import { createEntryContext, normalizeEntry } from './entries.ts';
+import { createJsonlDecoder, jsonlDecoderRemainder, readFileRange, readJsonlStream } from './jsonl.ts';
+import { claudeCodeHomeForProjectDir, getExistingProjectsPaths, getProjectDirs } from './paths.ts';
+import {
+  flushPersistentCache,
+  getPersistedSession,
+  loadPersistentCache,
+  prunePersistedSessions,
+  recordPersistedSession,
+} from './persistence.ts';
+import { clearProjectIdentityCache, resolveProjectIdentity, summarizeProjects } from './projects.ts';
+import { summarizeSessionRows } from './summaries.ts';
+import { createToolUseState } from './tools.ts';
+import type {
+  ClaudeCodeSessionParseOptions,
+  ProjectSessionSource,
+  ProjectSummary,
+  SessionAggregateCacheEntry,
+  SessionFileCursor,
+  SessionParseState,
+  SessionSummary,
+} from './types.ts';
+import { extractCwds, extractGitBranches, extractProjectPath, extractSlug } from './utils.ts';
+import {
+  RECONCILIATION_INTERVAL_MS,
   consumeForceFullReconciliation,
   sessionWatcher,
   startSessionWatcher,
@@ -16,118 +48,229 @@ interface ParsedSessionFile {
   sessionId: string;
   filePath: string;
   mtimeMs: number;
+  size: number;
+  dev: number;
+  ino: number;
+  claudeHome: string;
 }
 
-interface ClaudeEntryWithCwd {
-  cwd?: string;
+interface LoadedSessionAggregate {
+  file: ParsedSessionFile;
+  aggregate: SessionAggregateCacheEntry;
 }
 
-export function toTimestamp(value: string | undefined, fallback: number): number {
-  if (!value) return fallback;
-  const parsed = Date.parse(value);
-  return Number.isFinite(parsed) ? parsed : fallback;
+interface IncrementalSessionParse {
+  usageRows: SessionUsageData[];
+  parseState?: SessionParseState;
+  cursor?: SessionFileCursor;
+  incremental: boolean;
+  malformedLines: number;
 }
 
-export function isTokenBearingAssistant(entry: unknown): entry is ClaudeCodeAssistantEntry {
-  if (!entry || typeof entry !== 'object') return false;
+export const DEFAULT_SESSION_LIMIT = 100;
 
-  const candidate = entry as Partial<ClaudeCodeAssistantEntry>;
-  if (candidate.type !== 'assistant') return false;
-  if (!candidate.message || typeof candidate.message !== 'object') return false;
+const CURSOR_SIGNATURE_BYTES = 64;
 
-  const model = candidate.message.model;
-  const usage = candidate.message.usage;
-  const messageId = candidate.message.id;
+const APPEND_BATCH_SIZE = 500;
 
-  if (typeof model !== 'string' || model.trim().length === 0) return false;
-  if (!usage || typeof usage !== 'object') return false;
-  if (typeof usage.input_tokens !== 'number' || usage.input_tokens <= 0) return false;
-  if (typeof usage.output_tokens !== 'number') return false;
-  if (typeof usage.cache_creation_input_tokens !== 'number') return false;
-  if (typeof usage.cache_read_input_tokens !== 'number') return false;
-  if (typeof messageId !== 'string' || messageId.length === 0) return false;
+const EMPTY_BUFFER = Buffer.alloc(0);
 
-  return true;
+interface ClaudeEntryWithCwd {
+  cwd?: string;
 }
 
-export function extractSlug(entries: unknown[]): string | undefined {
-  for (let i = entries.length - 1; i >= 0; i--) {
-    const entry = entries[i] as Partial<{ slug: string | null }>;
-    if (typeof entry.slug === 'string' && entry.slug.length > 0) {
-      return entry.slug;
-    }
-  }
-  return undefined;
+interface ClaudeEntryWithGitBranch {
+  gitBranch?: string;
 }
 
-export function parseSessionFileRows(sessionId: string, mtimeMs: number, entries: unknown[]): SessionUsageData[] {
-  const deduped = new Map<string, SessionUsageData>();
-  const projectPath = extractProjectPath(entries as ClaudeEntryWithCwd[]);
-  const sessionName = extractSlug(entries);
+interface ClaudeEntryWithUuid {
+  uuid?: string;
+  parentUuid?: string | null;
+}
+
+export function createSessionParseState(): SessionParseState {
+  return {
+    messages: new Map(),
+    cwds: new Set(),
+    gitBranches: new Set(),
+    sidechainRoots: new Map(),
+    toolUse: createToolUseState(),
+    compaction: createCompactionState(),
+  };
+}
 
+export function appendSessionEntries(state: SessionParseState, entries: unknown[], mtimeMs: number): void {
+  state.projectPath ??= extractProjectPath(entries as ClaudeEntryWithCwd[]);
+  for (const cwd of extractCwds(entries as ClaudeEntryWithCwd[])) {
+    state.cwds.add(cwd);
+  }
+  state.sessionName = extractSlug(entries) ?? state.sessionName;
+  for (const branch of extractGitBranches(entries as ClaudeEntryWithGitBranch[])) {
+    state.gitBranches.add(branch);
+  }
+
+  const context = createEntryContext(mtimeMs, state.sidechainRoots, state.toolUse, state.compaction);
   for (const entry of entries) {
-    if (!isTokenBearingAssistant(entry)) continue;
+    const { uuid, parentUuid } = (entry ?? {}) as ClaudeEntryWithUuid;
+    if (typeof uuid === 'string') {
+      if (state.headParentUuid === undefined) {
+        state.headParentUuid = typeof parentUuid === 'string' ? parentUuid : null;
+      }
+      state.tailUuid = uuid;
+    }
+
+    const record = normalizeEntry(entry, context);
+    if (!record) continue;
 
-    const { input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens } = entry.message.usage;
+    const { messageId, ...message } = record;
+    state.messages.set(messageId, { providerId: 'anthropic', ...message });
+  }
+}
+
+export function buildSessionRows(sessionId: string, mtimeMs: number, state: SessionParseState): SessionUsageData[] {
+  const sessionCwds = Array.from(state.cwds);
+  const sessionGitBranches = Array.from(state.gitBranches);
+  const rows: SessionUsageData[] = [];
 
+  for (const [messageId, message] of state.messages) {
     const usage: SessionUsageData = {
+      ...message,
       sessionId,
-      providerId: 'anthropic',
-      modelId: entry.message.model,
-      tokens: {
-        input: input_tokens,
-        output: output_tokens,
-      },
-      timestamp: toTimestamp(entry.timestamp, mtimeMs),
       sessionUpdatedAt: mtimeMs,
+      metadata: { ...message.metadata, messageId },
     };
 
-    if (sessionName) {
-      usage.sessionName = sessionName;
+    if (state.sessionName) {
+      usage.sessionName = state.sessionName;
     }
-    if (cache_read_input_tokens > 0) {
-      usage.tokens.cacheRead = cache_read_input_tokens;
+    if (state.projectPath) {
+      usage.projectPath = state.projectPath;
     }
-    if (cache_creation_input_tokens > 0) {
-      usage.tokens.cacheWrite = cache_creation_input_tokens;
+    if (sessionCwds.length > 0) {
+      usage.metadata!.sessionCwds = sessionCwds;
     }
-    if (projectPath) {
-      usage.projectPath = projectPath;
+    if (sessionGitBranches.length > 0) {
+      usage.metadata!.sessionGitBranches = sessionGitBranches;
     }
 
-    deduped.set(entry.message.id, usage);
+    rows.push(usage);
   }
 
-  return Array.from(deduped.values());
+  return rows;
 }
 
-export async function parseSessionsFromProjects(
-  options: SessionParseOptions,
-  ctx: AgentFetchContext,
-): Promise<SessionUsageData[]> {
-  const limit = options.limit ?? 100;
-  const since = options.since;
+export function parseSessionFileRows(sessionId: string, mtimeMs: number, entries: unknown[]): SessionUsageData[] {
+  const state = createSessionParseState();
+  appendSessionEntries(state, entries, mtimeMs);
+  return buildSessionRows(sessionId, mtimeMs, state);
+}
 
+export async function parseSessionFileIncremental(
+  sessionId: string,
+  filePath: string,
+  mtimeMs: number,
+  previous?: Pick<SessionAggregateCacheEntry, 'parseState' | 'cursor'>,
+): Promise<IncrementalSessionParse> {
+  let handle: fs.FileHandle;
   try {
-    await fs.access(CLAUDE_CODE_PROJECTS_PATH);
+    handle = await fs.open(filePath, 'r');
   } catch {
-    ctx.logger.debug('No Claude Code projects directory found');
-    return [];
+    return { usageRows: [], incremental: false, malformedLines: 0 };
   }
 
-  startSessionWatcher();
+  try {
+    const stat = await handle.stat();
+    let parseState = previous?.parseState;
+    let readFrom = 0;
+    let remainder: Buffer = EMPTY_BUFFER;
+    let incremental = false;
+
+    const cursor = previous?.cursor;
+    if (parseState && cursor && cursor.ino === stat.ino && stat.size >= cursor.offset) {
+      const signatureStart = cursor.offset - cursor.signature.length;
+      const signature = await readFileRange(handle, signatureStart, cursor.offset);
+      if (signature.equals(cursor.signature)) {
+        readFrom = cursor.offset;
+        remainder = cursor.remainder;
+        incremental = true;
+      }
+    }
 
-  const now = Date.now();
-  if (
-    !options.sessionId &&
-    limit === sessionCache.lastLimit &&
-    now - sessionCache.lastCheck < CACHE_TTL_MS &&
-    sessionCache.lastResult.length > 0 &&
-    sessionCache.lastSince === since
-  ) {
-    ctx.logger.debug('Claude Code: using cached sessions (within TTL)', { count: sessionCache.lastResult.length });
-    return sessionCache.lastResult;
+    if (!incremental || !parseState) {
+      parseState = createSessionParseState();
+    }
+
+    const decoder = createJsonlDecoder(remainder);
+    let batch: unknown[] = [];
+    for await (const entry of readJsonlStream<unknown>(handle, decoder, readFrom, stat.size)) {
+      batch.push(entry);
+      if (batch.length >= APPEND_BATCH_SIZE) {
+        appendSessionEntries(parseState, batch, mtimeMs);
+        batch = [];
+      }
+    }
+    appendSessionEntries(parseState, batch, mtimeMs);
+
+    return {
+      usageRows: buildSessionRows(sessionId, mtimeMs, parseState),
+      parseState,
+      cursor: {
+        ino: stat.ino,
+        offset: stat.size,
+        remainder: jsonlDecoderRemainder(decoder),
+        signature: await readFileRange(handle, Math.max(0, stat.size - CURSOR_SIGNATURE_BYTES), stat.size),
+      },
+      incremental,
+      malformedLines: decoder.malformedLines,
+    };
+  } catch {
+    return { usageRows: [], incremental: false, malformedLines: 0 };
+  } finally {
+    await handle.close();
+  }
+}
+
+// Rows carry the canonical project, and the directory the session was launched
+// from stays in their metadata. A changed project invalidates the summary.
+async function resolveAggregateProject(file: ParsedSessionFile, aggregate: SessionAggregateCacheEntry): Promise<void> {
+  const sessionCwds = aggregate.usageRows[0]?.metadata?.sessionCwds;
+  const project = await resolveProjectIdentity(
+    path.basename(path.dirname(file.filePath)),
+    Array.isArray(sessionCwds) ? sessionCwds : [],
+  );
+  if (aggregate.project?.projectPath !== project?.projectPath) {
+    aggregate.summary = undefined;
   }
+  aggregate.project = project;
+  if (!project) return;
+
+  for (const row of aggregate.usageRows) {
+    row.projectPath = project.projectPath;
+    row.metadata = { ...row.metadata, launchPath: project.launchPath };
+  }
+}
+
+// Only transcripts modified within the reconciliation interval keep the state to
+// resume parsing from. An older one that changes again is parsed from the start.
+function releaseIdleParseStates(now: number): void {
+  for (const aggregate of sessionAggregateCache.values()) {
+    if (aggregate.parseState && now - aggregate.updatedAt > RECONCILIATION_INTERVAL_MS) {
+      aggregate.parseState = undefined;
+      aggregate.cursor = undefined;
+    }
+  }
+}
+
+async function loadSessionAggregates(
+  options: ClaudeCodeSessionParseOptions,
+  ctx: AgentFetchContext,
+  now: number,
+): Promise<{ loaded: LoadedSessionAggregate[]; stats: Record<string, number> }> {
+  const limit = options.limit ?? DEFAULT_SESSION_LIMIT;
+  const offset = options.offset ?? 0;
+  const since = options.since;
+
+  await loadPersistentCache();
 
   const dirtyPaths = new Set(sessionWatcher.dirtyPaths);
   sessionWatcher.dirtyPaths.clear();
@@ -135,6 +278,7 @@ export async function parseSessionsFromProjects(
   const needsFullStat = consumeForceFullReconciliation();
   if (needsFullStat) {
     ctx.logger.debug('Claude Code: full reconciliation sweep triggered');
+    clearProjectIdentityCache();
   }
 
   const sessionFiles: ParsedSessionFile[] = [];
@@ -148,6 +292,7 @@ export async function parseSessionsFromProjects(
 
   for (const projectDirPath of projectDirs) {
     watchProjectDir(projectDirPath);
+    const claudeHome = claudeCodeHomeForProjectDir(projectDirPath);
 
     let entries;
     try {
@@ -173,98 +318,300 @@ export async function parseSessionsFromProjects(
         statSkipCount++;
 
         if (!since || metadata.mtimeMs >= since) {
-          sessionFiles.push({
-            sessionId: metadata.sessionId,
-            filePath,
-            mtimeMs: metadata.mtimeMs,
-          });
+          sessionFiles.push({ ...metadata, filePath, claudeHome });
         }
         continue;
       }
 
       statCount++;
-      let mtimeMs: number;
+      let stat: Awaited<ReturnType<typeof fs.stat>>;
       try {
-        const stat = await fs.stat(filePath);
-        mtimeMs = stat.mtimeMs;
+        stat = await fs.stat(filePath);
       } catch {
-        sessionMetadataIndex.delete(filePath);
+        unindexSessionFile(filePath);
         continue;
       }
 
-      if (metadata && metadata.mtimeMs === mtimeMs) {
-        if (!since || metadata.mtimeMs >= since) {
-          sessionFiles.push({
-            sessionId: metadata.sessionId,
-            filePath,
-            mtimeMs: metadata.mtimeMs,
-          });
-        }
-        continue;
+      const current = { mtimeMs: stat.mtimeMs, size: stat.size, sessionId, dev: stat.dev, ino: stat.ino };
+      if (
+        !metadata ||
+        metadata.mtimeMs !== current.mtimeMs ||
+        metadata.size !== current.size ||
+        metadata.dev !== current.dev ||
+        metadata.ino !== current.ino
+      ) {
+        indexSessionFile(filePath, current);
       }
 
-      sessionMetadataIndex.set(filePath, { mtimeMs, sessionId });
-      if (!since || mtimeMs >= since) {
-        sessionFiles.push({ sessionId, filePath, mtimeMs });
+      if (!since || current.mtimeMs >= since) {
+        sessionFiles.push({ ...current, filePath, claudeHome });
       }
     }
   }
 
-  for (const cachedPath of sessionMetadataIndex.keys()) {
-    if (!seenFilePaths.has(cachedPath)) {
-      sessionMetadataIndex.delete(cachedPath);
+  // A sessionId filter skips the other files, so only an unfiltered scan can tell
+  // which ones are gone.
+  if (!options.sessionId) {
+    for (const cachedPath of sessionMetadataIndex.keys()) {
+      if (!seenFilePaths.has(cachedPath)) {
+        unindexSessionFile(cachedPath);
+      }
     }
+    prunePersistedSessions(seenFilePaths);
   }
 
-  sessionFiles.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  sessionFiles.sort((a, b) => b.mtimeMs - a.mtimeMs || a.filePath.localeCompare(b.filePath));
+  // Pages hold whole sessions. A session with files in several project directories
+  // or homes takes one slot, on the page of its newest file.
+  const sessionIds = Array.from(new Set(sessionFiles.map((file) => file.sessionId)));
+  const pageSessionIds = new Set(sessionIds.slice(offset, offset + limit));
+  const pageFiles = sessionFiles.filter((file) => pageSessionIds.has(file.sessionId));
 
-  const sessions: SessionUsageData[] = [];
+  const loaded: LoadedSessionAggregate[] = [];
   let aggregateCacheHits = 0;
   let aggregateCacheMisses = 0;
-
-  for (const file of sessionFiles) {
-    const cached = sessionAggregateCache.get(file.sessionId);
-    if (cached && cached.updatedAt === file.mtimeMs) {
+  let tailParses = 0;
+  let fullParses = 0;
+  let malformedLines = 0;
+  let persistedHits = 0;
+
+  for (const file of pageFiles) {
+    const cached = sessionAggregateCache.get(file.filePath);
+    if (cached && cached.updatedAt === file.mtimeMs && cached.dev === file.dev && cached.ino === file.ino) {
       cached.lastAccessed = now;
+      if (needsFullStat) {
+        await resolveAggregateProject(file, cached);
+      }
       aggregateCacheHits++;
-      sessions.push(...cached.usageRows);
+      loaded.push({ file, aggregate: cached });
       continue;
     }
 
     aggregateCacheMisses++;
 
-    const rows = await readJsonlFile<unknown>(file.filePath);
-    const usageRows = parseSessionFileRows(file.sessionId, file.mtimeMs, rows);
+    const persisted = cached ? undefined : await getPersistedSession(file.filePath);
+    if (persisted && persisted.size === file.size && persisted.mtimeMs === file.mtimeMs) {
+      persistedHits++;
+      const aggregate: SessionAggregateCacheEntry = {
+        updatedAt: file.mtimeMs,
+        dev: file.dev,
+        ino: file.ino,
+        sessionId: file.sessionId,
+        headParentUuid: persisted.headParentUuid,
+        tailUuid: persisted.tailUuid,
+        usageRows: persisted.usageRows,
+        lastAccessed: now,
+        parseState: persisted.parseState,
+        cursor: persisted.cursor,
+      };
+      await resolveAggregateProject(file, aggregate);
+      setSessionAggregate(file.filePath, aggregate);
+      loaded.push({ file, aggregate });
+      continue;
+    }
+
+    // A persisted entry that no longer matches can still resume from its cursor.
+    const parsed = await parseSessionFileIncremental(file.sessionId, file.filePath, file.mtimeMs, cached ?? persisted);
+    if (parsed.incremental) {
+      tailParses++;
+    } else {
+      fullParses++;
+    }
+    malformedLines += parsed.malformedLines;
 
-    sessionAggregateCache.set(file.sessionId, {
+    const usageRows = parsed.usageRows;
+    for (const row of usageRows) {
+      row.metadata = { ...row.metadata, claudeHome: file.claudeHome };
+    }
+
+    const aggregate: SessionAggregateCacheEntry = {
       updatedAt: file.mtimeMs,
+      dev: file.dev,
+      ino: file.ino,
+      sessionId: file.sessionId,
+      headParentUuid: parsed.parseState?.headParentUuid ?? undefined,
+      tailUuid: parsed.parseState?.tailUuid,
       usageRows,
       lastAccessed: now,
-    });
-
-    sessions.push(...usageRows);
+      parseState: parsed.parseState,
+      cursor: parsed.cursor,
+    };
+    await resolveAggregateProject(file, aggregate);
+    setSessionAggregate(file.filePath, aggregate);
+    loaded.push({ file, aggregate });
+
+    if (parsed.cursor) {
+      // Like the in-memory cache, only recently modified transcripts keep the state
+      // to resume parsing from.
+      const resumable = now - file.mtimeMs <= RECONCILIATION_INTERVAL_MS;
+      recordPersistedSession(file.filePath, {
+        sessionId: file.sessionId,
+        size: parsed.cursor.offset,
+        mtimeMs: file.mtimeMs,
+        headParentUuid: aggregate.headParentUuid,
+        tailUuid: aggregate.tailUuid,
+        usageRows,
+        parseState: resumable ? parsed.parseState : undefined,
+        cursor: resumable ? parsed.cursor : undefined,
+      });
+    }
   }
 
   evictSessionAggregateCache();
+  releaseIdleParseStates(now);
+  resolveConversationsIfChanged(sessionAggregateCache);
+  await flushPersistentCache();
+
+  return {
+    loaded,
+    stats: {
+      sessionFiles: sessionFiles.length,
+      pageFiles: pageFiles.length,
+      statChecks: statCount,
+      statSkips: statSkipCount,
+      dirtyHits: dirtyHitCount,
+      aggregateCacheHits,
+      aggregateCacheMisses,
+      tailParses,
+      fullParses,
+      malformedLines,
+      persistedHits,
+      metadataIndexSize: sessionMetadataIndex.size,
+      aggregateCacheSize: sessionAggregateCache.size,
+    },
+  };
+}
+
+export async function parseSessionsFromProjects(
+  options: ClaudeCodeSessionParseOptions,
+  ctx: AgentFetchContext,
+): Promise<SessionUsageData[]> {
+  const limit = options.limit ?? DEFAULT_SESSION_LIMIT;
+  const offset = options.offset ?? 0;
+  const since = options.since;
+
+  const projectsPaths = await getExistingProjectsPaths();
+  if (projectsPaths.length === 0) {
+    ctx.logger.debug('No Claude Code projects directory found');
+    return [];
+  }
+
+  startSessionWatcher();
+
+  const now = Date.now();
+  if (
+    !options.sessionId &&
+    limit === sessionCache.lastLimit &&
+    offset === sessionCache.lastOffset &&
+    now - sessionCache.lastCheck < CACHE_TTL_MS &&
+    sessionCache.lastResult.length > 0 &&
+    sessionCache.lastSince === since
+  ) {
+    ctx.logger.debug('Claude Code: using cached sessions (within TTL)', { count: sessionCache.lastResult.length });
+    return sessionCache.lastResult;
+  }
+
+  const { loaded, stats } = await loadSessionAggregates(options, ctx, now);
+  const sessions: SessionUsageData[] = [];
+  for (const { aggregate } of loaded) {
+    sessions.push(...(aggregate.visibleRows ?? aggregate.usageRows));
+  }
 
   if (!options.sessionId) {
     sessionCache.lastCheck = Date.now();
     sessionCache.lastResult = sessions;
     sessionCache.lastLimit = limit;
+    sessionCache.lastOffset = offset;
     sessionCache.lastSince = since;
   }
 
-  ctx.logger.debug('Claude Code: parsed sessions', {
-    count: sessions.length,
-    sessionFiles: sessionFiles.length,
-    statChecks: statCount,
-    statSkips: statSkipCount,
-    dirtyHits: dirtyHitCount,
-    aggregateCacheHits,
-    aggregateCacheMisses,
-    metadataIndexSize: sessionMetadataIndex.size,
-    aggregateCacheSize: sessionAggregateCache.size,
-  });
+  ctx.logger.debug('Claude Code: parsed sessions', { count: sessions.length, ...stats });
+
+  return sessions;
+}
+
+function summarizeLoadedSessions(loaded: LoadedSessionAggregate[]): Array<{ summary: SessionSummary; files: LoadedSessionAggregate[] }> {
+  const filesBySession = new Map<string, LoadedSessionAggregate[]>();
+  for (const item of loaded) {
+    const files = filesBySession.get(item.file.sessionId);
+    if (files) {
+      files.push(item);
+    } else {
+      filesBySession.set(item.file.sessionId, [item]);
+    }
+  }
+
+  const sessions: Array<{ summary: SessionSummary; files: LoadedSessionAggregate[] }> = [];
+  for (const [sessionId, files] of filesBySession) {
+    const { file: latest, aggregate } = files[0]!;
+
+    let summary: SessionSummary | undefined;
+    if (files.length === 1) {
+      aggregate.summary ??= summarizeSessionRows(
+        sessionId,
+        latest.mtimeMs,
+        latest.claudeHome,
+        aggregate.visibleRows ?? aggregate.usageRows,
+      );
+      summary = aggregate.summary;
+    } else {
+      const usageRows = files.flatMap((item) => item.aggregate.visibleRows ?? item.aggregate.usageRows);
+      summary = summarizeSessionRows(sessionId, latest.mtimeMs, latest.claudeHome, usageRows);
+    }
 
+    if (summary) {
+      if (aggregate.conversationId) {
+        summary.conversationId = aggregate.conversationId;
+      }
+      sessions.push({ summary, files });
+    }
+  }
   return sessions;
 }
+
+export async function parseSessionSummaries(
+  options: ClaudeCodeSessionParseOptions,
+  ctx: AgentFetchContext,
+): Promise<SessionSummary[]> {
+  const projectsPaths = await getExistingProjectsPaths();
+  if (projectsPaths.length === 0) {
+    ctx.logger.debug('No Claude Code projects directory found');
+    return [];
+  }
+
+  startSessionWatcher();
+
+  const { loaded, stats } = await loadSessionAggregates(options, ctx, Date.now());
+  const summaries = summarizeLoadedSessions(loaded).map(({ summary }) => summary);
+
+  ctx.logger.debug('Claude Code: summarized sessions', { count: summaries.length, ...stats });
+
+  return summaries;
+}
+
+export async function parseProjectSummaries(
+  options: ClaudeCodeSessionParseOptions,
+  ctx: AgentFetchContext,
+): Promise<ProjectSummary[]> {
+  const projectsPaths = await getExistingProjectsPaths();
+  if (projectsPaths.length === 0) {
+    ctx.logger.debug('No Claude Code projects directory found');
+    return [];
+  }
+
+  startSessionWatcher();
+
+  const { loaded, stats } = await loadSessionAggregates(options, ctx, Date.now());
+  const sources: ProjectSessionSource[] = [];
+  for (const { summary, files } of summarizeLoadedSessions(loaded)) {
+    const project = files[0]!.aggregate.project;
+    if (project) {
+      sources.push({ project, summary });
+    }
+  }
+  const projects = summarizeProjects(sources);
+
+  ctx.logger.debug('Claude Code: summarized projects', { count: projects.length, sessions: sources.length, ...stats });
+
+  return projects;
+}
@@ -1,23 +1,105 @@
 import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 
 export const CLAUDE_CODE_HOME = path.join(os.homedir(), '.claude');
 export const CLAUDE_CODE_PROJECTS_PATH = path.join(CLAUDE_CODE_HOME, 'projects');
 
+export const CLAUDE_CONFIG_DIR_ENV = 'CLAUDE_CONFIG_DIR';
+
+let claudeCodeHomes: string[] = resolveClaudeCodeHomes();
+
+function expandHome(dirPath: string): string {
+  if (dirPath === '~') return os.homedir();
+  if (dirPath.startsWith('~/') || dirPath.startsWith(`~${path.sep}`)) {
+    return path.join(os.homedir(), dirPath.slice(2));
+  }
+  return dirPath;
+}
+
+function splitDirList(value: unknown, separator: string | RegExp): string[] {
+  const items = Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : typeof value === 'string' ? value.split(separator) : [];
+
+  return items
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+    .map((item) => path.resolve(expandHome(item)));
+}
+
+export function resolveClaudeCodeHomes(
+  config: Record<string, unknown> = {},
+  env: Record<string, string | undefined> = process.env,
+): string[] {
+  const fromConfig = splitDirList(config.configDirs, /[,\n]/);
+  const fromEnv = splitDirList(env[CLAUDE_CONFIG_DIR_ENV], path.delimiter);
+  const homes = fromConfig.length > 0 ? fromConfig : fromEnv.length > 0 ? fromEnv : [CLAUDE_CODE_HOME];
+
+  return Array.from(new Set(homes));
+}
+
+// The host approves the declared paths once, when the plugin loads, so they are
+// fixed then: the homes from CLAUDE_CONFIG_DIR plus the default home.
+export function resolveFilesystemPaths(env: Record<string, string | undefined> = process.env): string[] {
+  return Array.from(new Set([...resolveClaudeCodeHomes({}, env), CLAUDE_CODE_HOME]));
+}
+
+export function isWithinPaths(dirPath: string, paths: readonly string[]): boolean {
+  return paths.some((declared) => dirPath === declared || dirPath.startsWith(`${declared}${path.sep}`));
+}
+
+export function configureClaudeCodeHomes(config: Record<string, unknown> = {}): boolean {
+  const next = resolveClaudeCodeHomes(config);
+  const changed = next.length !== claudeCodeHomes.length || next.some((home, i) => home !== claudeCodeHomes[i]);
+  claudeCodeHomes = next;
+  return changed;
+}
+
+export function getClaudeCodeHomes(): string[] {
+  return claudeCodeHomes;
+}
+
+export function getProjectsPaths(): string[] {
+  return claudeCodeHomes.map((home) => path.join(home, 'projects'));
+}
+
+export function claudeCodeHomeForProjectDir(projectDirPath: string): string {
+  return path.dirname(path.dirname(projectDirPath));
+}
+
+export function isAnyClaudeCodeHomePresent(): boolean {
+  return claudeCodeHomes.some((home) => fsSync.existsSync(path.join(home, 'projects')) || fsSync.existsSync(home));
+}
+
+export async function getExistingProjectsPaths(): Promise<string[]> {
+  const existing: string[] = [];
+  for (const projectsPath of getProjectsPaths()) {
+    try {
+      await fs.access(projectsPath);
+      existing.push(projectsPath);
+    } catch {
+    }
+  }
+  return existing;
+}
+
 export async function getProjectDirs(): Promise<string[]> {
-  try {
-    const entries = await fs.readdir(CLAUDE_CODE_PROJECTS_PATH, { withFileTypes: true });
-    const dirs: string[] = [];
+  const dirs: string[] = [];
+
+  for (const projectsPath of getProjectsPaths()) {
+    try {
+      const entries = await fs.readdir(projectsPath, { withFileTypes: true });
 
-    for (const entry of entries) {
-      if (entry.isDirectory()) {
-        dirs.push(path.join(CLAUDE_CODE_PROJECTS_PATH, entry.name));
+      for (const entry of entries) {
+        if (entry.isDirectory()) {
+          dirs.push(path.join(projectsPath, entry.name));
+        }
       }
+    } catch {
     }
-
-    return dirs;
-  } catch {
-    return [];
   }
+
+  return dirs;
 }
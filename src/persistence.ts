@@ -0,0 +1,243 @@
+import type { PluginStorage, SessionUsageData } from '@tokentop/plugin-sdk';
+import { pricingOverridesFingerprint } from './pricing.ts';
+import type { SessionFileCursor, SessionParseState } from './types.ts';
+
+// Bump whenever the shape or meaning of parsed usage rows changes so that rows
+// persisted by an older parser are discarded instead of being served as-is.
+export const PARSER_SCHEMA_VERSION = 6;
+
+export const PERSISTENT_CACHE_KEY = 'sessions';
+
+const SESSION_KEY_PREFIX = 'session:';
+
+export const PERSISTENT_CACHE_FLUSH_INTERVAL_MS = 30 * 1000;
+
+export interface PersistedSessionFile {
+  sessionId: string;
+  size: number;
+  mtimeMs: number;
+  headParentUuid?: string;
+  tailUuid?: string;
+  usageRows: SessionUsageData[];
+  parseState?: SessionParseState;
+  cursor?: SessionFileCursor;
+}
+
+// The index lists which transcripts have an entry of their own, so a flush only
+// rewrites the entries that changed.
+interface PersistentCacheIndex {
+  version: number;
+  pricing: string;
+  files: string[];
+}
+
+interface PersistentCacheState {
+  enabled: boolean;
+  storage: PluginStorage | undefined;
+  files: Set<string>;
+  pending: Map<string, PersistedSessionFile>;
+  removed: Set<string>;
+  pricing: string;
+  loaded: Promise<void> | null;
+  dirty: boolean;
+  lastFlush: number;
+}
+
+export const persistentCache: PersistentCacheState = {
+  enabled: false,
+  storage: undefined,
+  files: new Set(),
+  pending: new Map(),
+  removed: new Set(),
+  pricing: '',
+  loaded: null,
+  dirty: false,
+  lastFlush: 0,
+};
+
+export function persistedSessionKey(filePath: string): string {
+  return `${SESSION_KEY_PREFIX}${filePath}`;
+}
+
+// Parse state holds maps, sets and buffers, which JSON has no form for.
+function encodeValue(this: unknown, key: string, value: unknown): unknown {
+  const raw = (this as Record<string, unknown>)[key];
+  if (Buffer.isBuffer(raw)) return { $buffer: raw.toString('base64') };
+  if (raw instanceof Map) return { $map: Array.from(raw) };
+  if (raw instanceof Set) return { $set: Array.from(raw) };
+  return value;
+}
+
+function decodeValue(_key: string, value: unknown): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  const tagged = value as { $buffer?: unknown; $map?: unknown; $set?: unknown };
+  if (typeof tagged.$buffer === 'string') return Buffer.from(tagged.$buffer, 'base64');
+  if (Array.isArray(tagged.$map)) return new Map(tagged.$map as Array<[unknown, unknown]>);
+  if (Array.isArray(tagged.$set)) return new Set(tagged.$set);
+  return value;
+}
+
+// The cache lives in the host's per-plugin storage, which only reaches the plugin
+// through a full plugin context; the last one seen is kept for later parses.
+export function configurePersistentCache(config: Record<string, unknown> = {}, storage?: PluginStorage): void {
+  const enabled = config.persistentCache === true;
+  const nextStorage = storage ?? persistentCache.storage;
+  if (enabled === persistentCache.enabled && nextStorage === persistentCache.storage) return;
+
+  persistentCache.enabled = enabled;
+  persistentCache.storage = nextStorage;
+  persistentCache.files.clear();
+  persistentCache.pending.clear();
+  persistentCache.removed.clear();
+  persistentCache.pricing = '';
+  persistentCache.loaded = null;
+  persistentCache.dirty = false;
+  persistentCache.lastFlush = 0;
+}
+
+export function isPersistentCacheEnabled(): boolean {
+  return persistentCache.enabled && persistentCache.storage !== undefined;
+}
+
+async function readPersistentCache(storage: PluginStorage): Promise<void> {
+  let index: PersistentCacheIndex;
+  try {
+    const stored = await storage.get(PERSISTENT_CACHE_KEY);
+    if (stored === null) return;
+    index = JSON.parse(stored) as PersistentCacheIndex;
+  } catch {
+    return;
+  }
+
+  const files = Array.isArray(index?.files) ? index.files.filter((file) => typeof file === 'string') : [];
+  if (index?.version !== PARSER_SCHEMA_VERSION) {
+    for (const filePath of files) {
+      persistentCache.removed.add(filePath);
+    }
+    persistentCache.dirty = true;
+    return;
+  }
+
+  persistentCache.pricing = typeof index.pricing === 'string' ? index.pricing : '';
+  for (const filePath of files) {
+    persistentCache.files.add(filePath);
+  }
+}
+
+export function loadPersistentCache(): Promise<void> {
+  const storage = persistentCache.storage;
+  if (!isPersistentCacheEnabled() || !storage) return Promise.resolve();
+
+  persistentCache.loaded ??= readPersistentCache(storage);
+  return persistentCache.loaded;
+}
+
+function invalidateOnPricingChange(): void {
+  const pricing = pricingOverridesFingerprint();
+  if (pricing === persistentCache.pricing) return;
+
+  persistentCache.pricing = pricing;
+  persistentCache.pending.clear();
+  for (const filePath of persistentCache.files) {
+    persistentCache.removed.add(filePath);
+  }
+  persistentCache.files.clear();
+  persistentCache.dirty = true;
+}
+
+// Returns the stored entry whatever the transcript looks like now; the caller
+// compares its size and mtime, and may resume parsing from its cursor.
+export async function getPersistedSession(filePath: string): Promise<PersistedSessionFile | undefined> {
+  const storage = persistentCache.storage;
+  if (!isPersistentCacheEnabled() || !storage) return undefined;
+  invalidateOnPricingChange();
+
+  const pending = persistentCache.pending.get(filePath);
+  if (pending) return pending;
+  if (!persistentCache.files.has(filePath)) return undefined;
+
+  try {
+    const stored = await storage.get(persistedSessionKey(filePath));
+    if (stored !== null) return JSON.parse(stored, decodeValue) as PersistedSessionFile;
+  } catch {
+    // Treated as missing and dropped below.
+  }
+  forgetPersistedSession(filePath);
+  return undefined;
+}
+
+export function recordPersistedSession(filePath: string, file: PersistedSessionFile): void {
+  if (!isPersistentCacheEnabled()) return;
+  invalidateOnPricingChange();
+
+  persistentCache.pending.set(filePath, file);
+  persistentCache.removed.delete(filePath);
+  if (!persistentCache.files.has(filePath)) {
+    persistentCache.files.add(filePath);
+    persistentCache.dirty = true;
+  }
+}
+
+export function forgetPersistedSession(filePath: string): void {
+  persistentCache.pending.delete(filePath);
+  if (persistentCache.files.delete(filePath)) {
+    persistentCache.removed.add(filePath);
+    persistentCache.dirty = true;
+  }
+}
+
+export function prunePersistedSessions(keep: Set<string>): void {
+  for (const filePath of persistentCache.files) {
+    if (!keep.has(filePath)) {
+      forgetPersistedSession(filePath);
+    }
+  }
+}
+
+export async function flushPersistentCache(force = false): Promise<void> {
+  const storage = persistentCache.storage;
+  if (!isPersistentCacheEnabled() || !storage) return;
+  if (!persistentCache.dirty && persistentCache.pending.size === 0 && persistentCache.removed.size === 0) return;
+
+  const now = Date.now();
+  if (!force && persistentCache.lastFlush > 0 && now - persistentCache.lastFlush < PERSISTENT_CACHE_FLUSH_INTERVAL_MS) return;
+
+  const pending = Array.from(persistentCache.pending);
+  const removed = Array.from(persistentCache.removed);
+  const index: PersistentCacheIndex = {
+    version: PARSER_SCHEMA_VERSION,
+    pricing: persistentCache.pricing,
+    files: Array.from(persistentCache.files),
+  };
+  const writeIndex = persistentCache.dirty;
+
+  persistentCache.pending.clear();
+  persistentCache.removed.clear();
+  persistentCache.dirty = false;
+  persistentCache.lastFlush = now;
+
+  try {
+    for (const [filePath, file] of pending) {
+      await storage.set(persistedSessionKey(filePath), JSON.stringify(file, encodeValue));
+    }
+    for (const filePath of removed) {
+      await storage.delete(persistedSessionKey(filePath));
+    }
+    if (writeIndex) {
+      await storage.set(PERSISTENT_CACHE_KEY, JSON.stringify(index));
+    }
+  } catch {
+    // Whatever was not superseded in the meantime is retried on the next flush.
+    for (const [filePath, file] of pending) {
+      if (persistentCache.files.has(filePath) && !persistentCache.pending.has(filePath)) {
+        persistentCache.pending.set(filePath, file);
+      }
+    }
+    for (const filePath of removed) {
+      if (!persistentCache.files.has(filePath)) {
+        persistentCache.removed.add(filePath);
+      }
+    }
+    persistentCache.dirty ||= writeIndex;
+  }
+}
@@ -0,0 +1,153 @@
+import type { ModelPricing } from '@tokentop/plugin-sdk';
+import { clearSessionAggregates, sessionCache } from './cache.ts';
+import type { CostStatus } from './types.ts';
+
+export const LONG_CONTEXT_THRESHOLD_TOKENS = 200_000;
+
+const TOKENS_PER_PRICING_UNIT = 1_000_000;
+
+export interface ClaudeCodeModelPricing extends ModelPricing {
+  cacheWrite1h?: number;
+  longContextCacheWrite1h?: number;
+}
+
+const OPUS_LEGACY: ClaudeCodeModelPricing = {
+  input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75, cacheWrite1h: 30, source: 'bundled',
+};
+const OPUS_CURRENT: ClaudeCodeModelPricing = {
+  input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25, cacheWrite1h: 10, source: 'bundled',
+};
+const SONNET: ClaudeCodeModelPricing = {
+  input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75, cacheWrite1h: 6, source: 'bundled',
+};
+const SONNET_LONG_CONTEXT: ClaudeCodeModelPricing = {
+  ...SONNET,
+  longContextInput: 6,
+  longContextOutput: 22.5,
+  longContextCacheRead: 0.6,
+  longContextCacheWrite: 7.5,
+  longContextCacheWrite1h: 12,
+};
+const HAIKU_4: ClaudeCodeModelPricing = {
+  input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25, cacheWrite1h: 2, source: 'bundled',
+};
+const HAIKU_3_5: ClaudeCodeModelPricing = {
+  input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1, cacheWrite1h: 1.6, source: 'bundled',
+};
+const HAIKU_3: ClaudeCodeModelPricing = {
+  input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3, cacheWrite1h: 0.5, source: 'bundled',
+};
+
+export const BUNDLED_MODEL_PRICING: Readonly<Record<string, ClaudeCodeModelPricing>> = {
+  'claude-opus-4-6': OPUS_CURRENT,
+  'claude-opus-4-5': OPUS_CURRENT,
+  'claude-opus-4-1': OPUS_LEGACY,
+  'claude-opus-4': OPUS_LEGACY,
+  'claude-3-opus': OPUS_LEGACY,
+  'claude-sonnet-4-6': SONNET_LONG_CONTEXT,
+  'claude-sonnet-4-5': SONNET_LONG_CONTEXT,
+  'claude-sonnet-4': SONNET_LONG_CONTEXT,
+  'claude-3-7-sonnet': SONNET,
+  'claude-3-5-sonnet': SONNET,
+  'claude-haiku-4-5': HAIKU_4,
+  'claude-3-5-haiku': HAIKU_3_5,
+  'claude-3-haiku': HAIKU_3,
+};
+
+const pricingOverrides = new Map<string, ClaudeCodeModelPricing>();
+
+export interface CostEstimate {
+  cost?: number;
+  costStatus: CostStatus;
+}
+
+export interface PricedTokens {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+  cacheWrite1h?: number;
+}
+
+export function normalizeModelId(modelId: string): string {
+  let normalized = modelId.trim().toLowerCase();
+
+  const vendorPrefix = normalized.lastIndexOf('anthropic.');
+  if (vendorPrefix >= 0) {
+    normalized = normalized.slice(vendorPrefix + 'anthropic.'.length);
+  }
+
+  return normalized
+    .replace(/\[[^\]]*\]$/, '')
+    .replace(/-v\d+(:\d+)?$/, '')
+    .replace('@', '-')
+    .replace(/-(\d{8}|latest)$/, '');
+}
+
+export function getModelPricing(modelId: string): ClaudeCodeModelPricing | undefined {
+  const exact = pricingOverrides.get(modelId);
+  if (exact) return exact;
+
+  const normalized = normalizeModelId(modelId);
+  return pricingOverrides.get(normalized) ?? BUNDLED_MODEL_PRICING[normalized];
+}
+
+export function setModelPricingOverrides(overrides: Record<string, ClaudeCodeModelPricing>): void {
+  pricingOverrides.clear();
+  for (const [modelId, pricing] of Object.entries(overrides)) {
+    pricingOverrides.set(modelId, pricing);
+    pricingOverrides.set(normalizeModelId(modelId), pricing);
+  }
+  invalidatePricedCaches();
+}
+
+export function clearModelPricingOverrides(): void {
+  if (pricingOverrides.size === 0) return;
+  pricingOverrides.clear();
+  invalidatePricedCaches();
+}
+
+export function pricingOverridesFingerprint(): string {
+  if (pricingOverrides.size === 0) return '';
+  const entries = Array.from(pricingOverrides.entries()).sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify(entries);
+}
+
+export function estimateCost(modelId: string, tokens: PricedTokens): CostEstimate {
+  const pricing = getModelPricing(modelId);
+  if (!pricing) return { costStatus: 'unpriced' };
+
+  const cacheRead = tokens.cacheRead ?? 0;
+  const cacheWrite = tokens.cacheWrite ?? 0;
+  const cacheWrite1h = Math.min(tokens.cacheWrite1h ?? 0, cacheWrite);
+  const promptTokens = tokens.input + cacheRead + cacheWrite;
+  const longContext = promptTokens > LONG_CONTEXT_THRESHOLD_TOKENS && pricing.longContextInput !== undefined;
+
+  const inputRate = longContext ? pricing.longContextInput! : pricing.input;
+  const outputRate = longContext ? pricing.longContextOutput ?? pricing.output : pricing.output;
+  const cacheReadRate = longContext
+    ? pricing.longContextCacheRead ?? pricing.cacheRead ?? inputRate
+    : pricing.cacheRead ?? inputRate;
+  const cacheWriteRate = longContext
+    ? pricing.longContextCacheWrite ?? pricing.cacheWrite ?? inputRate
+    : pricing.cacheWrite ?? inputRate;
+  const cacheWrite1hRate = longContext
+    ? pricing.longContextCacheWrite1h ?? inputRate * 2
+    : pricing.cacheWrite1h ?? inputRate * 2;
+
+  const cost = (
+    tokens.input * inputRate +
+    tokens.output * outputRate +
+    cacheRead * cacheReadRate +
+    (cacheWrite - cacheWrite1h) * cacheWriteRate +
+    cacheWrite1h * cacheWrite1hRate
+  ) / TOKENS_PER_PRICING_UNIT;
+
+  return { cost, costStatus: 'estimated' };
+}
+
+function invalidatePricedCaches(): void {
+  clearSessionAggregates();
+  sessionCache.lastCheck = 0;
+  sessionCache.lastResult = [];
+}
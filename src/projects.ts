@@ -0,0 +1,148 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { addTokens, emptyTokenTotals } from './summaries.ts';
+import type { ProjectIdentity, ProjectSessionSource, ProjectSummary } from './types.ts';
+import { decodeProjectDirName } from './utils.ts';
+
+interface ProjectIdentityState {
+  detectGitRoots: boolean;
+  gitRoots: Map<string, Promise<string | undefined>>;
+}
+
+export const projectIdentity: ProjectIdentityState = {
+  detectGitRoots: false,
+  gitRoots: new Map(),
+};
+
+// Looking for a repository root stats directories above the launch directory,
+// outside the Claude Code homes the plugin declares, so it is opt-in.
+export function configureProjectIdentity(config: Record<string, unknown> = {}): boolean {
+  const detectGitRoots = config.detectGitRoots === true;
+  if (detectGitRoots === projectIdentity.detectGitRoots) return false;
+
+  projectIdentity.detectGitRoots = detectGitRoots;
+  clearProjectIdentityCache();
+  return true;
+}
+
+export function clearProjectIdentityCache(): void {
+  projectIdentity.gitRoots.clear();
+}
+
+// Claude Code names a project directory after the launch directory with every
+// character other than a letter or digit replaced by a dash.
+export function encodeProjectPath(projectPath: string): string {
+  return projectPath.replace(/[^a-zA-Z0-9]/g, '-');
+}
+
+// Decoding the directory name is lossy (dashes, dots and slashes all encode the
+// same), so a cwd that encodes back to it is preferred. Sessions that `cd`
+// elsewhere still start in that directory.
+export function resolveLaunchPath(projectDirName: string, cwds: string[]): string | undefined {
+  const matching = cwds.find((cwd) => encodeProjectPath(cwd) === projectDirName);
+  if (matching) return matching;
+  if (cwds.length > 0) return cwds[0];
+  return projectDirName ? decodeProjectDirName(projectDirName) : undefined;
+}
+
+async function hasGitEntry(dirPath: string): Promise<boolean> {
+  try {
+    await fs.stat(path.join(dirPath, '.git'));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The walk stops below the home directory so that a dotfiles repository there
+// does not swallow every project under it.
+async function searchGitRoot(startPath: string, homeDir: string): Promise<string | undefined> {
+  const start = path.resolve(startPath);
+  let dirPath = start;
+  for (;;) {
+    if (dirPath === homeDir && dirPath !== start) return undefined;
+    if (await hasGitEntry(dirPath)) return dirPath;
+
+    const parent = path.dirname(dirPath);
+    if (parent === dirPath) return undefined;
+    dirPath = parent;
+  }
+}
+
+export function findGitRoot(startPath: string, homeDir = os.homedir()): Promise<string | undefined> {
+  let root = projectIdentity.gitRoots.get(startPath);
+  if (!root) {
+    root = searchGitRoot(startPath, homeDir);
+    projectIdentity.gitRoots.set(startPath, root);
+  }
+  return root;
+}
+
+export async function resolveProjectIdentity(
+  projectDirName: string,
+  cwds: string[],
+  homeDir = os.homedir(),
+): Promise<ProjectIdentity | undefined> {
+  const launchPath = resolveLaunchPath(projectDirName, cwds);
+  if (!launchPath) return undefined;
+
+  const gitRoot = projectIdentity.detectGitRoots ? await findGitRoot(launchPath, homeDir) : undefined;
+  const identity: ProjectIdentity = { projectPath: gitRoot ?? launchPath, launchPath };
+  if (gitRoot) {
+    identity.gitRoot = gitRoot;
+  }
+  return identity;
+}
+
+export function summarizeProjects(sources: ProjectSessionSource[]): ProjectSummary[] {
+  const projects = new Map<string, ProjectSummary>();
+  const launchPaths = new Map<string, Set<string>>();
+
+  for (const { project: identity, summary } of sources) {
+    let project = projects.get(identity.projectPath);
+    if (!project) {
+      project = {
+        projectPath: identity.projectPath,
+        launchPaths: [],
+        sessionCount: 0,
+        messageCount: 0,
+        lastActiveAt: summary.endedAt,
+        tokens: emptyTokenTotals(),
+        models: {},
+      };
+      if (identity.gitRoot) {
+        project.gitRoot = identity.gitRoot;
+      }
+      projects.set(identity.projectPath, project);
+      launchPaths.set(identity.projectPath, new Set());
+    }
+    launchPaths.get(identity.projectPath)!.add(identity.launchPath);
+
+    project.sessionCount++;
+    project.messageCount += summary.messageCount;
+    project.lastActiveAt = Math.max(project.lastActiveAt, summary.endedAt);
+    addTokens(project.tokens, summary.tokens);
+    if (summary.cost !== undefined) {
+      project.cost = (project.cost ?? 0) + summary.cost;
+    }
+
+    for (const [modelId, sessionModel] of Object.entries(summary.models)) {
+      let model = project.models[modelId];
+      if (!model) {
+        model = { messageCount: 0, tokens: emptyTokenTotals() };
+        project.models[modelId] = model;
+      }
+      model.messageCount += sessionModel.messageCount;
+      addTokens(model.tokens, sessionModel.tokens);
+      if (sessionModel.cost !== undefined) {
+        model.cost = (model.cost ?? 0) + sessionModel.cost;
+      }
+    }
+  }
+
+  for (const [projectPath, project] of projects) {
+    project.launchPaths = Array.from(launchPaths.get(projectPath)!).sort();
+  }
+  return Array.from(projects.values()).sort((a, b) => b.lastActiveAt - a.lastActiveAt);
+}
@@ -0,0 +1,239 @@
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import type {
+  BurnRateWindow,
+  LiveUsage,
+  SessionBurnRate,
+  SessionTokenTotals,
+  UsageCeiling,
+  UsageProjection,
+} from './types.ts';
+import { attributeRepeatedUsage, liveUsageFromRow } from './utils.ts';
+
+export const DEFAULT_BURN_RATE_WINDOWS_MINUTES = [1, 5, 15];
+
+const MINUTE_MS = 60 * 1000;
+
+interface SessionRateState {
+  projectPath?: string;
+  lastActivityAt: number;
+  tokens: SessionTokenTotals;
+  cost: number;
+  recent: Map<string, LiveUsage>;
+  messageIds: Set<string>;
+}
+
+interface BurnRateState {
+  windowsMinutes: number[];
+  sessions: Map<string, SessionRateState>;
+  messages: Map<string, LiveUsage>;
+  lastSweep: number;
+}
+
+export const burnRates: BurnRateState = {
+  windowsMinutes: DEFAULT_BURN_RATE_WINDOWS_MINUTES,
+  sessions: new Map(),
+  messages: new Map(),
+  lastSweep: 0,
+};
+
+export function configureBurnRateWindows(config: Record<string, unknown> = {}): void {
+  const configured = typeof config.burnRateWindowsMinutes === 'string' ? config.burnRateWindowsMinutes : '';
+  const windows = configured
+    .split(',')
+    .map((value) => Number(value.trim()))
+    .filter((value) => Number.isFinite(value) && value > 0);
+
+  burnRates.windowsMinutes = windows.length > 0
+    ? Array.from(new Set(windows)).sort((a, b) => a - b)
+    : DEFAULT_BURN_RATE_WINDOWS_MINUTES;
+}
+
+export function resetBurnRates(): void {
+  burnRates.sessions.clear();
+  burnRates.messages.clear();
+  burnRates.lastSweep = 0;
+}
+
+function longestWindowMs(): number {
+  return burnRates.windowsMinutes[burnRates.windowsMinutes.length - 1]! * MINUTE_MS;
+}
+
+function applyTotals(state: SessionRateState, usage: LiveUsage, sign: 1 | -1): void {
+  state.tokens.input += sign * usage.tokens.input;
+  state.tokens.output += sign * usage.tokens.output;
+  state.tokens.cacheRead += sign * (usage.tokens.cacheRead ?? 0);
+  state.tokens.cacheWrite += sign * (usage.tokens.cacheWrite ?? 0);
+  state.cost += sign * (usage.cost ?? 0);
+}
+
+function pruneRecent(state: SessionRateState, now: number): void {
+  const cutoff = now - longestWindowMs();
+  for (const [messageId, usage] of state.recent) {
+    if (usage.timestamp <= cutoff) {
+      state.recent.delete(messageId);
+    }
+  }
+}
+
+// A session quiet for longer than the longest window has no rate left to report,
+// so it is forgotten along with its messages. Its totals start over if it resumes.
+function forgetIdleSessions(now: number): void {
+  burnRates.lastSweep = now;
+  const cutoff = now - longestWindowMs();
+  for (const [sessionId, state] of burnRates.sessions) {
+    if (state.lastActivityAt > cutoff) continue;
+
+    for (const messageId of state.messageIds) {
+      burnRates.messages.delete(messageId);
+    }
+    burnRates.sessions.delete(sessionId);
+  }
+}
+
+function storeUsage(usage: LiveUsage, now: number): SessionRateState {
+  const previous = burnRates.messages.get(usage.messageId);
+  const stored = attributeRepeatedUsage(previous, usage);
+
+  let state = burnRates.sessions.get(stored.sessionId);
+  if (!state) {
+    state = {
+      lastActivityAt: stored.timestamp,
+      tokens: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+      cost: 0,
+      recent: new Map(),
+      messageIds: new Set(),
+    };
+    burnRates.sessions.set(stored.sessionId, state);
+  }
+
+  if (previous) {
+    applyTotals(state, previous, -1);
+  }
+  applyTotals(state, stored, 1);
+  burnRates.messages.set(stored.messageId, stored);
+  state.messageIds.add(stored.messageId);
+
+  state.projectPath ??= stored.projectPath;
+  state.lastActivityAt = Math.max(state.lastActivityAt, stored.timestamp);
+  if (stored.timestamp > now - longestWindowMs()) {
+    state.recent.set(stored.messageId, stored);
+  } else {
+    state.recent.delete(stored.messageId);
+  }
+  return state;
+}
+
+// Live usage keeps arriving even when nobody reads the rates, so the record path
+// also sweeps idle sessions, at most once per longest window.
+export function recordRateUsage(usage: LiveUsage, now = Date.now()): void {
+  if (now - burnRates.lastSweep >= longestWindowMs()) {
+    forgetIdleSessions(now);
+  }
+  pruneRecent(storeUsage(usage, now), now);
+}
+
+export function seedRateUsage(rows: SessionUsageData[], now = Date.now()): void {
+  for (const row of rows) {
+    const usage = liveUsageFromRow(row);
+    if (usage) {
+      storeUsage(usage, now);
+    }
+  }
+  forgetIdleSessions(now);
+}
+
+function windowRate(state: SessionRateState, windowMinutes: number, now: number): BurnRateWindow {
+  const cutoff = now - windowMinutes * MINUTE_MS;
+  const tokens: SessionTokenTotals = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+  let cost = 0;
+  let messageCount = 0;
+
+  for (const usage of state.recent.values()) {
+    if (usage.timestamp <= cutoff || usage.timestamp > now) continue;
+
+    messageCount++;
+    tokens.input += usage.tokens.input;
+    tokens.output += usage.tokens.output;
+    tokens.cacheRead += usage.tokens.cacheRead ?? 0;
+    tokens.cacheWrite += usage.tokens.cacheWrite ?? 0;
+    cost += usage.cost ?? 0;
+  }
+
+  return {
+    windowMinutes,
+    messageCount,
+    tokensPerMinute: {
+      input: tokens.input / windowMinutes,
+      output: tokens.output / windowMinutes,
+      cacheRead: tokens.cacheRead / windowMinutes,
+      cacheWrite: tokens.cacheWrite / windowMinutes,
+      total: (tokens.input + tokens.output + tokens.cacheRead + tokens.cacheWrite) / windowMinutes,
+    },
+    costPerMinute: cost / windowMinutes,
+  };
+}
+
+function toSessionBurnRate(sessionId: string, state: SessionRateState, now: number): SessionBurnRate {
+  const rate: SessionBurnRate = {
+    sessionId,
+    lastActivityAt: state.lastActivityAt,
+    tokens: { ...state.tokens },
+    cost: state.cost,
+    windows: burnRates.windowsMinutes.map((windowMinutes) => windowRate(state, windowMinutes, now)),
+  };
+  if (state.projectPath) {
+    rate.projectPath = state.projectPath;
+  }
+  return rate;
+}
+
+// Sessions with a message inside the longest window are active, busiest first by
+// the shortest window, like the load columns in `top`.
+export function getBurnRates(now = Date.now()): SessionBurnRate[] {
+  forgetIdleSessions(now);
+
+  const rates: SessionBurnRate[] = [];
+  for (const [sessionId, state] of burnRates.sessions) {
+    pruneRecent(state, now);
+    if (state.recent.size === 0) continue;
+    rates.push(toSessionBurnRate(sessionId, state, now));
+  }
+
+  return rates.sort((a, b) =>
+    b.windows[0]!.tokensPerMinute.total - a.windows[0]!.tokensPerMinute.total ||
+    a.sessionId.localeCompare(b.sessionId),
+  );
+}
+
+function reachedAt(current: number, ceiling: number | undefined, perMinute: number, now: number): number | undefined {
+  if (ceiling === undefined) return undefined;
+  if (current >= ceiling) return now;
+  if (perMinute <= 0) return undefined;
+  return now + ((ceiling - current) / perMinute) * MINUTE_MS;
+}
+
+export function projectSessionUsage(
+  sessionId: string,
+  ceiling: UsageCeiling,
+  options: { windowMinutes?: number; now?: number } = {},
+): UsageProjection | undefined {
+  const state = burnRates.sessions.get(sessionId);
+  if (!state) return undefined;
+
+  const now = options.now ?? Date.now();
+  const windowMinutes = options.windowMinutes ?? burnRates.windowsMinutes[burnRates.windowsMinutes.length - 1]!;
+  pruneRecent(state, now);
+  const rate = windowRate(state, windowMinutes, now);
+
+  const tokens = state.tokens.input + state.tokens.output + state.tokens.cacheRead + state.tokens.cacheWrite;
+  const projection: UsageProjection = { sessionId, windowMinutes };
+  const tokensReachedAt = reachedAt(tokens, ceiling.maxTokens, rate.tokensPerMinute.total, now);
+  if (tokensReachedAt !== undefined) {
+    projection.tokensReachedAt = tokensReachedAt;
+  }
+  const costReachedAt = reachedAt(state.cost, ceiling.maxCost, rate.costPerMinute, now);
+  if (costReachedAt !== undefined) {
+    projection.costReachedAt = costReachedAt;
+  }
+  return projection;
+}
@@ -0,0 +1,95 @@
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import type { CompactionEvent, SessionModelSummary, SessionSummary, SessionTokenTotals } from './types.ts';
+
+export const ACTIVE_GAP_THRESHOLD_MS = 5 * 60 * 1000;
+
+export function emptyTokenTotals(): SessionTokenTotals {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+}
+
+export function addTokens(totals: SessionTokenTotals, tokens: SessionUsageData['tokens']): void {
+  totals.input += tokens.input;
+  totals.output += tokens.output;
+  totals.cacheRead += tokens.cacheRead ?? 0;
+  totals.cacheWrite += tokens.cacheWrite ?? 0;
+}
+
+// Gaps longer than the threshold are treated as the user being away, so only the
+// time between closely spaced messages counts towards the active duration.
+export function activeDuration(timestamps: number[], gapThresholdMs = ACTIVE_GAP_THRESHOLD_MS): number {
+  const sorted = [...timestamps].sort((a, b) => a - b);
+  let active = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = sorted[i]! - sorted[i - 1]!;
+    if (gap <= gapThresholdMs) {
+      active += gap;
+    }
+  }
+  return active;
+}
+
+export function summarizeSessionRows(
+  sessionId: string,
+  sessionUpdatedAt: number,
+  claudeHome: string,
+  rows: SessionUsageData[],
+): SessionSummary | undefined {
+  if (rows.length === 0) return undefined;
+
+  const timestamps = rows.map((row) => row.timestamp);
+  const tokens = emptyTokenTotals();
+  const models: Record<string, SessionModelSummary> = {};
+  let startedAt = Infinity;
+  let endedAt = -Infinity;
+  const compactions: CompactionEvent[] = [];
+  let cost: number | undefined;
+
+  for (const row of rows) {
+    const compaction = row.metadata?.compaction as CompactionEvent | undefined;
+    if (compaction) {
+      compactions.push(compaction);
+    }
+
+    startedAt = Math.min(startedAt, row.timestamp);
+    endedAt = Math.max(endedAt, row.timestamp);
+    addTokens(tokens, row.tokens);
+
+    let model = models[row.modelId];
+    if (!model) {
+      model = { messageCount: 0, tokens: emptyTokenTotals() };
+      models[row.modelId] = model;
+    }
+    model.messageCount++;
+    addTokens(model.tokens, row.tokens);
+
+    if (row.cost !== undefined) {
+      model.cost = (model.cost ?? 0) + row.cost;
+      cost = (cost ?? 0) + row.cost;
+    }
+  }
+
+  const summary: SessionSummary = {
+    sessionId,
+    claudeHome,
+    sessionUpdatedAt,
+    startedAt,
+    endedAt,
+    wallClockMs: endedAt - startedAt,
+    activeMs: activeDuration(timestamps),
+    messageCount: rows.length,
+    tokens,
+    models,
+    compactions: compactions.sort((a, b) => a.timestamp - b.timestamp),
+  };
+  if (rows[0]!.sessionName) {
+    summary.sessionName = rows[0]!.sessionName;
+  }
+  if (rows[0]!.projectPath) {
+    summary.projectPath = rows[0]!.projectPath;
+  }
+  if (cost !== undefined) {
+    summary.cost = cost;
+  }
+
+  return summary;
+}
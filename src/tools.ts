@@ -0,0 +1,128 @@
+import type { ToolResultUsage, ToolUseState } from './types.ts';
+
+type ContentBlock = { type?: unknown; [key: string]: unknown };
+
+const UNKNOWN_TOOL = 'unknown';
+
+export function createToolUseState(): ToolUseState {
+  return {
+    toolNames: new Map(),
+    messageToolUses: new Map(),
+    messageToolResults: new Map(),
+    pendingToolResults: new Map(),
+  };
+}
+
+export function cloneToolUseState(state: ToolUseState): ToolUseState {
+  const pendingToolResults = new Map<string, Record<string, ToolResultUsage>>();
+  for (const [chainId, pending] of state.pendingToolResults) {
+    const copy: Record<string, ToolResultUsage> = {};
+    for (const [toolName, usage] of Object.entries(pending)) {
+      copy[toolName] = { ...usage };
+    }
+    pendingToolResults.set(chainId, copy);
+  }
+
+  return {
+    toolNames: new Map(state.toolNames),
+    messageToolUses: new Map(Array.from(state.messageToolUses, ([messageId, toolUses]) => [messageId, new Map(toolUses)])),
+    messageToolResults: new Map(state.messageToolResults),
+    pendingToolResults,
+  };
+}
+
+function contentBlocks(entry: { message?: { content?: unknown } }): ContentBlock[] {
+  const content = entry.message?.content;
+  if (!Array.isArray(content)) return [];
+  return content.filter((block): block is ContentBlock => !!block && typeof block === 'object');
+}
+
+export function toolResultChars(content: unknown): number {
+  if (typeof content === 'string') return content.length;
+  if (!Array.isArray(content)) return 0;
+
+  let chars = 0;
+  for (const block of content) {
+    if (block && typeof block === 'object' && typeof (block as ContentBlock).text === 'string') {
+      chars += ((block as ContentBlock).text as string).length;
+    }
+  }
+  return chars;
+}
+
+// Tool results arrive in the user entry after the turn that requested them and are
+// fed to the model as part of the next assistant turn's prompt, so they are held per
+// conversation chain until that turn shows up.
+export function trackToolUse(state: ToolUseState, entry: unknown, chainId: string): void {
+  if (!entry || typeof entry !== 'object') return;
+
+  const candidate = entry as { type?: unknown; message?: { id?: unknown; content?: unknown } };
+
+  if (candidate.type === 'assistant') {
+    const messageId = candidate.message?.id;
+    if (typeof messageId !== 'string' || messageId.length === 0) return;
+
+    if (!state.messageToolResults.has(messageId)) {
+      state.messageToolResults.set(messageId, state.pendingToolResults.get(chainId) ?? {});
+      state.pendingToolResults.delete(chainId);
+    }
+
+    for (const block of contentBlocks(candidate)) {
+      if (block.type !== 'tool_use' || typeof block.id !== 'string' || typeof block.name !== 'string') continue;
+
+      state.toolNames.set(block.id, block.name);
+      let toolUses = state.messageToolUses.get(messageId);
+      if (!toolUses) {
+        toolUses = new Map();
+        state.messageToolUses.set(messageId, toolUses);
+      }
+      toolUses.set(block.id, block.name);
+    }
+    return;
+  }
+
+  if (candidate.type !== 'user') return;
+
+  for (const block of contentBlocks(candidate)) {
+    if (block.type !== 'tool_result') continue;
+
+    const toolName = typeof block.tool_use_id === 'string'
+      ? state.toolNames.get(block.tool_use_id) ?? UNKNOWN_TOOL
+      : UNKNOWN_TOOL;
+
+    let pending = state.pendingToolResults.get(chainId);
+    if (!pending) {
+      pending = {};
+      state.pendingToolResults.set(chainId, pending);
+    }
+
+    const usage: ToolResultUsage = pending[toolName] ?? { count: 0, chars: 0 };
+    usage.count += 1;
+    usage.chars += toolResultChars(block.content);
+    pending[toolName] = usage;
+  }
+}
+
+export function toolMetadata(state: ToolUseState, messageId: string): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {};
+
+  const toolUses = state.messageToolUses.get(messageId);
+  if (toolUses && toolUses.size > 0) {
+    const counts: Record<string, number> = {};
+    for (const toolName of toolUses.values()) {
+      counts[toolName] = (counts[toolName] ?? 0) + 1;
+    }
+    metadata.toolUses = counts;
+  }
+
+  const toolResults = state.messageToolResults.get(messageId);
+  if (toolResults && Object.keys(toolResults).length > 0) {
+    const snapshot: Record<string, ToolResultUsage> = {};
+    for (const [toolName, usage] of Object.entries(toolResults)) {
+      snapshot[toolName] = { ...usage };
+    }
+    metadata.toolResults = snapshot;
+  }
+
+  return metadata;
+}
@@ -1,4 +1,4 @@
-import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import type { ActivityUpdate, SessionParseOptions, SessionUsageData } from '@tokentop/plugin-sdk';
 
 export interface ClaudeCodeUsageInfo {
   input_tokens: number;
@@ -56,8 +56,304 @@ export interface ClaudeCodeUserEntry {
   };
 }
 
+export interface UsageRecord {
+  messageId: string;
+  modelId: string;
+  tokens: SessionUsageData['tokens'];
+  timestamp: number;
+  cost?: number;
+  metadata: Record<string, unknown>;
+}
+
+export type SessionMessageRow = Omit<SessionUsageData, 'sessionId' | 'sessionName' | 'projectPath' | 'sessionUpdatedAt'>;
+
+export interface ToolResultUsage {
+  count: number;
+  chars: number;
+}
+
+export interface ToolUseState {
+  toolNames: Map<string, string>;
+  messageToolUses: Map<string, Map<string, string>>;
+  messageToolResults: Map<string, Record<string, ToolResultUsage>>;
+  pendingToolResults: Map<string, Record<string, ToolResultUsage>>;
+}
+
+export interface CompactionEvent {
+  timestamp: number;
+  trigger?: string;
+  preTokens?: number;
+  preTokensInferred: boolean;
+  postTokens?: number;
+}
+
+export interface CompactionState {
+  lastContextTokens?: number;
+  pending?: CompactionEvent;
+  messageEvents: Map<string, CompactionEvent>;
+}
+
+export interface SessionParseState {
+  messages: Map<string, SessionMessageRow>;
+  headParentUuid?: string | null;
+  tailUuid?: string;
+  projectPath?: string;
+  cwds: Set<string>;
+  sessionName?: string;
+  gitBranches: Set<string>;
+  sidechainRoots: Map<string, string>;
+  toolUse: ToolUseState;
+  compaction: CompactionState;
+}
+
+export interface SessionFileCursor {
+  ino: number;
+  offset: number;
+  remainder: Buffer;
+  signature: Buffer;
+}
+
 export interface SessionAggregateCacheEntry {
   updatedAt: number;
+  dev?: number;
+  ino?: number;
+  sessionId?: string;
+  headParentUuid?: string;
+  tailUuid?: string;
+  conversationId?: string;
   usageRows: SessionUsageData[];
+  visibleRows?: SessionUsageData[];
   lastAccessed: number;
+  parseState?: SessionParseState;
+  cursor?: SessionFileCursor;
+  summary?: SessionSummary;
+  project?: ProjectIdentity;
+}
+
+export interface ClaudeCodeSessionParseOptions extends SessionParseOptions {
+  offset?: number;
+}
+
+export type CostStatus = 'estimated' | 'unpriced';
+
+export interface ClaudeCodeActivityUpdate extends ActivityUpdate {
+  cost?: number;
+  metadata: Record<string, unknown>;
+}
+
+export interface SessionTokenTotals {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+export interface SessionModelSummary {
+  messageCount: number;
+  tokens: SessionTokenTotals;
+  cost?: number;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  conversationId?: string;
+  sessionName?: string;
+  projectPath?: string;
+  claudeHome: string;
+  sessionUpdatedAt: number;
+  startedAt: number;
+  endedAt: number;
+  wallClockMs: number;
+  activeMs: number;
+  messageCount: number;
+  tokens: SessionTokenTotals;
+  cost?: number;
+  models: Record<string, SessionModelSummary>;
+  compactions: CompactionEvent[];
+}
+
+export type SessionLifecycleEventType = 'started' | 'idle' | 'resumed' | 'deleted';
+
+export interface SessionLifecycleEvent {
+  type: SessionLifecycleEventType;
+  sessionId: string;
+  filePath: string;
+  claudeHome: string;
+  projectPath?: string;
+  sessionName?: string;
+  timestamp: number;
+}
+
+export type SessionLifecycleListener = (event: SessionLifecycleEvent) => void;
+
+export type WatchMode = 'watch' | 'poll';
+
+export interface WatchModeStatus {
+  mode: WatchMode;
+  reason?: string;
+  since?: number;
+  pollIntervalMs: number;
+}
+
+export interface WatchMetrics {
+  eventsReceived: number;
+  eventsCoalesced: number;
+  deltaReads: number;
+}
+
+export type BudgetScope = 'session' | 'project' | 'day' | 'model';
+
+export type BudgetMetric = 'tokens' | 'cost';
+
+export type BudgetAlertLevel = 'warning' | 'exceeded';
+
+export interface BudgetDefinition {
+  id: string;
+  scope: BudgetScope;
+  match?: string;
+  maxTokens?: number;
+  maxCost?: number;
+  warningRatio?: number;
+}
+
+export interface LiveUsage {
+  messageId: string;
+  sessionId: string;
+  modelId: string;
+  projectPath?: string;
+  tokens: SessionUsageData['tokens'];
+  cost?: number;
+  timestamp: number;
+}
+
+export interface BudgetAlert {
+  budgetId: string;
+  scope: BudgetScope;
+  key: string;
+  level: BudgetAlertLevel;
+  metric: BudgetMetric;
+  value: number;
+  limit: number;
+  timestamp: number;
+}
+
+export type BudgetAlertListener = (alert: BudgetAlert) => void;
+
+export interface TokenRates extends SessionTokenTotals {
+  total: number;
+}
+
+export interface BurnRateWindow {
+  windowMinutes: number;
+  messageCount: number;
+  tokensPerMinute: TokenRates;
+  costPerMinute: number;
+}
+
+export interface SessionBurnRate {
+  sessionId: string;
+  projectPath?: string;
+  lastActivityAt: number;
+  tokens: SessionTokenTotals;
+  cost: number;
+  windows: BurnRateWindow[];
+}
+
+export interface UsageCeiling {
+  maxTokens?: number;
+  maxCost?: number;
+}
+
+export interface UsageProjection {
+  sessionId: string;
+  windowMinutes: number;
+  tokensReachedAt?: number;
+  costReachedAt?: number;
+}
+
+export interface UsageWindow {
+  startedAt: number;
+  endsAt: number;
+  firstActivityAt: number;
+  lastActivityAt: number;
+  messageCount: number;
+  tokens: SessionTokenTotals;
+  cost?: number;
+  models: Record<string, SessionModelSummary>;
+}
+
+export interface ActiveUsageWindow extends UsageWindow {
+  remainingMs: number;
+}
+
+export interface UsageWindowReport {
+  current?: ActiveUsageWindow;
+  history: UsageWindow[];
+}
+
+export interface UsageWindowOptions {
+  since?: number;
+}
+
+export type CacheInvalidationReason = 'model-switch' | 'prefix-changed';
+
+export interface CacheInvalidation {
+  sessionId: string;
+  messageId: string;
+  timestamp: number;
+  reason: CacheInvalidationReason;
+  expectedCacheRead: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+export interface CacheEfficiency {
+  messageCount: number;
+  promptTokens: number;
+  cacheRead: number;
+  cacheWrite: number;
+  hitRatio: number;
+  tokensSaved: number;
+  costSaved?: number;
+  wastedCacheWrite: number;
+  wastedCacheWrite1h: number;
+  invalidations: CacheInvalidation[];
+}
+
+export interface SessionCacheEfficiency extends CacheEfficiency {
+  sessionId: string;
+  projectPath?: string;
+}
+
+export interface ProjectCacheEfficiency extends CacheEfficiency {
+  projectPath: string;
+  sessionCount: number;
+}
+
+export interface CacheEfficiencyReport {
+  sessions: SessionCacheEfficiency[];
+  projects: ProjectCacheEfficiency[];
+}
+
+export interface ProjectIdentity {
+  projectPath: string;
+  launchPath: string;
+  gitRoot?: string;
+}
+
+export interface ProjectSessionSource {
+  project: ProjectIdentity;
+  summary: SessionSummary;
+}
+
+export interface ProjectSummary {
+  projectPath: string;
+  gitRoot?: string;
+  launchPaths: string[];
+  sessionCount: number;
+  messageCount: number;
+  lastActiveAt: number;
+  tokens: SessionTokenTotals;
+  cost?: number;
+  models: Record<string, SessionModelSummary>;
 }
@@ -1,26 +1,5 @@
-import * as fs from 'fs/promises';
-
-export async function readJsonlFile<T>(filePath: string): Promise<T[]> {
-  try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    const lines = content.split(/\r?\n/);
-    const rows: T[] = [];
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-
-      try {
-        rows.push(JSON.parse(trimmed) as T);
-      } catch {
-      }
-    }
-
-    return rows;
-  } catch {
-    return [];
-  }
-}
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import type { ClaudeCodeUsageInfo, LiveUsage } from './types.ts';
 
 export function decodeProjectDirName(dirName: string): string {
   if (!dirName) return dirName;
@@ -37,3 +16,124 @@ export function extractProjectPath(entries: Array<{ cwd?: string }>): string | u
   }
   return undefined;
 }
+
+export function extractSlug(entries: unknown[]): string | undefined {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i] as Partial<{ slug: string | null }>;
+    if (typeof entry.slug === 'string' && entry.slug.length > 0) {
+      return entry.slug;
+    }
+  }
+  return undefined;
+}
+
+export function extractCwds(entries: Array<{ cwd?: string }>): string[] {
+  const cwds = new Set<string>();
+  for (const entry of entries) {
+    const cwd = entry.cwd?.trim();
+    if (cwd) cwds.add(cwd);
+  }
+  return Array.from(cwds);
+}
+
+export function extractGitBranches(entries: Array<{ gitBranch?: string }>): string[] {
+  const branches = new Set<string>();
+  for (const entry of entries) {
+    const branch = entry.gitBranch?.trim();
+    if (branch) branches.add(branch);
+  }
+  return Array.from(branches);
+}
+
+export interface CacheWriteBreakdown {
+  ephemeral5m: number;
+  ephemeral1h: number;
+  inferred: boolean;
+}
+
+// Transcripts written before Claude Code reported `cache_creation` only carry the
+// combined count; those writes are attributed to the default 5-minute TTL.
+export function splitCacheWrite(usage: ClaudeCodeUsageInfo): CacheWriteBreakdown {
+  const total = usage.cache_creation_input_tokens;
+  const reported1h = usage.cache_creation?.ephemeral_1h_input_tokens;
+
+  if (typeof reported1h !== 'number' || !Number.isFinite(reported1h)) {
+    return { ephemeral5m: total, ephemeral1h: 0, inferred: true };
+  }
+
+  const ephemeral1h = Math.min(Math.max(reported1h, 0), total);
+  return { ephemeral5m: total - ephemeral1h, ephemeral1h, inferred: false };
+}
+
+export function cacheWriteMetadata(split: CacheWriteBreakdown): Record<string, unknown> {
+  if (split.ephemeral5m + split.ephemeral1h === 0) return {};
+  return {
+    cacheWrite5m: split.ephemeral5m,
+    cacheWrite1h: split.ephemeral1h,
+    cacheWriteTtlInferred: split.inferred,
+  };
+}
+
+export type SidechainRoots = Map<string, string>;
+
+export function trackSidechainRoot(roots: SidechainRoots, entry: unknown): string | undefined {
+  if (!entry || typeof entry !== 'object') return undefined;
+
+  const { uuid, parentUuid, isSidechain } = entry as Partial<{
+    uuid: string;
+    parentUuid: string | null;
+    isSidechain: boolean;
+  }>;
+  if (isSidechain !== true) return undefined;
+
+  const parentRoot = typeof parentUuid === 'string' ? roots.get(parentUuid) : undefined;
+  const root = parentRoot ?? (typeof uuid === 'string' ? uuid : undefined);
+  if (root && typeof uuid === 'string') {
+    roots.set(uuid, root);
+  }
+  return root;
+}
+
+export function sidechainMetadata(sidechainRoot: string | undefined): Record<string, unknown> {
+  if (sidechainRoot === undefined) return { isSidechain: false };
+  return { isSidechain: true, sidechainRootUuid: sidechainRoot };
+}
+
+export function environmentMetadata(entry: { gitBranch?: string; version?: string }): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {};
+  const branch = entry.gitBranch?.trim();
+  if (branch) {
+    metadata.gitBranch = branch;
+  }
+  if (typeof entry.version === 'string' && entry.version.length > 0) {
+    metadata.claudeCodeVersion = entry.version;
+  }
+  return metadata;
+}
+
+export function liveUsageFromRow(row: SessionUsageData): LiveUsage | undefined {
+  const messageId = row.metadata?.messageId;
+  if (typeof messageId !== 'string') return undefined;
+
+  const usage: LiveUsage = {
+    messageId,
+    sessionId: row.sessionId,
+    modelId: row.modelId,
+    tokens: row.tokens,
+    timestamp: row.timestamp,
+  };
+  if (row.projectPath) {
+    usage.projectPath = row.projectPath;
+  }
+  if (row.cost !== undefined) {
+    usage.cost = row.cost;
+  }
+  return usage;
+}
+
+// Streamed turns repeat a message with growing usage, and resumed transcripts copy
+// earlier messages; the message keeps the session it was first seen in.
+export function attributeRepeatedUsage(previous: LiveUsage | undefined, usage: LiveUsage): LiveUsage {
+  if (!previous) return usage;
+  return { ...usage, sessionId: previous.sessionId, projectPath: previous.projectPath ?? usage.projectPath };
+}
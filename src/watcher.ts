@@ -1,88 +1,643 @@
 import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
 import * as path from 'path';
-import type { ActivityCallback, ActivityUpdate } from '@tokentop/plugin-sdk';
-import { CLAUDE_CODE_PROJECTS_PATH, getProjectDirs } from './paths.ts';
-import type { ClaudeCodeAssistantEntry } from './types.ts';
+import type { ActivityCallback, PluginLogger } from '@tokentop/plugin-sdk';
+import { recordBudgetUsage } from './budgets.ts';
+import { sessionAggregateCache } from './cache.ts';
+import { cloneCompactionState } from './compaction.ts';
+import { createEntryContext, normalizeEntry, type EntryContext } from './entries.ts';
+import { createJsonlDecoder, jsonlDecoderRemainder, readJsonlStream, type JsonlDecoder } from './jsonl.ts';
+import { claudeCodeHomeForProjectDir, getProjectDirs, getProjectsPaths } from './paths.ts';
+import { resolveProjectIdentity } from './projects.ts';
+import { recordRateUsage } from './rates.ts';
+import { cloneToolUseState } from './tools.ts';
+import type {
+  ClaudeCodeActivityUpdate,
+  LiveUsage,
+  SessionLifecycleEvent,
+  SessionLifecycleEventType,
+  SessionLifecycleListener,
+  WatchMetrics,
+  WatchMode,
+  WatchModeStatus,
+} from './types.ts';
+import { extractProjectPath, extractSlug } from './utils.ts';
+
+export interface WatcherCoreState {
+  projectWatchers: Map<string, fsSync.FSWatcher>;
+  rootWatchers: Map<string, fsSync.FSWatcher>;
+  refCount: number;
+}
 
 export interface SessionWatcherState {
-  projectWatchers: Map<string, fsSync.FSWatcher>;
-  rootWatcher: fsSync.FSWatcher | null;
   dirtyPaths: Set<string>;
   reconciliationTimer: ReturnType<typeof setInterval> | null;
   started: boolean;
 }
 
+interface SessionActivity {
+  sessionId: string;
+  claudeHome: string;
+  projectPath?: string;
+  launchCwd?: string;
+  projectCwd?: string;
+  sessionName?: string;
+  idle: boolean;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface PendingDelta {
+  firstEventAt: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
 interface ActivityWatcherState {
-  projectWatchers: Map<string, fsSync.FSWatcher>;
-  rootWatcher: fsSync.FSWatcher | null;
   callback: ActivityCallback | null;
+  logger: PluginLogger | null;
   fileOffsets: Map<string, number>;
+  fileDecoders: Map<string, JsonlDecoder>;
+  deltaQueues: Map<string, Promise<void>>;
+  pendingDeltas: Map<string, PendingDelta>;
+  debounceMs: number;
+  maxLatencyMs: number;
+  metricsTimer: ReturnType<typeof setInterval> | null;
+  loggedMetrics: WatchMetrics;
+  entryContexts: Map<string, EntryContext>;
+  sessions: Map<string, SessionActivity>;
+  messageOwners: Map<string, string>;
+  lifecycleListeners: Set<SessionLifecycleListener>;
+  idleTimeoutMs: number;
   started: boolean;
+  generation: number;
+}
+
+interface FileStamp {
+  mtimeMs: number;
+  size: number;
+}
+
+interface WatchHealthState {
+  mode: WatchMode;
+  reason?: string;
+  since?: number;
+  pollIntervalMs: number;
+  pollTimer: ReturnType<typeof setInterval> | null;
+  healthTimer: ReturnType<typeof setInterval> | null;
+  snapshot: Map<string, FileStamp> | null;
+  eventsSinceScan: Set<string>;
+  scanQueue: Promise<void>;
+  scanning: boolean;
+  epoch: number;
+  confirmedScans: number;
+  lastWatchRetry: number;
 }
 
 export const RECONCILIATION_INTERVAL_MS = 10 * 60 * 1000;
 
-export const sessionWatcher: SessionWatcherState = {
+export const DEFAULT_POLL_INTERVAL_MS = 2 * 1000;
+
+export const WATCH_HEALTH_CHECK_INTERVAL_MS = 60 * 1000;
+
+export const WATCH_EVENT_GRACE_MS = 5 * 1000;
+
+export const WATCH_RECOVERY_SCANS = 3;
+
+const WATCH_FAILURE_CODES = new Set(['ENOSPC', 'EMFILE', 'ENFILE']);
+
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+export const DEFAULT_WATCH_DEBOUNCE_MS = 50;
+
+export const DEFAULT_WATCH_MAX_LATENCY_MS = 250;
+
+export const WATCH_METRICS_LOG_INTERVAL_MS = 60 * 1000;
+
+export const watcherCore: WatcherCoreState = {
   projectWatchers: new Map(),
-  rootWatcher: null,
+  rootWatchers: new Map(),
+  refCount: 0,
+};
+
+export const sessionWatcher: SessionWatcherState = {
   dirtyPaths: new Set(),
   reconciliationTimer: null,
   started: false,
 };
 
-const activityWatcher: ActivityWatcherState = {
-  projectWatchers: new Map(),
-  rootWatcher: null,
+export const activityWatcher: ActivityWatcherState = {
   callback: null,
+  logger: null,
   fileOffsets: new Map(),
+  fileDecoders: new Map(),
+  deltaQueues: new Map(),
+  pendingDeltas: new Map(),
+  debounceMs: DEFAULT_WATCH_DEBOUNCE_MS,
+  maxLatencyMs: DEFAULT_WATCH_MAX_LATENCY_MS,
+  metricsTimer: null,
+  loggedMetrics: { eventsReceived: 0, eventsCoalesced: 0, deltaReads: 0 },
+  entryContexts: new Map(),
+  sessions: new Map(),
+  messageOwners: new Map(),
+  lifecycleListeners: new Set(),
+  idleTimeoutMs: DEFAULT_SESSION_IDLE_TIMEOUT_MS,
   started: false,
+  generation: 0,
+};
+
+export const watchHealth: WatchHealthState = {
+  mode: 'watch',
+  pollIntervalMs: DEFAULT_POLL_INTERVAL_MS,
+  pollTimer: null,
+  healthTimer: null,
+  snapshot: null,
+  eventsSinceScan: new Set(),
+  scanQueue: Promise.resolve(),
+  scanning: false,
+  epoch: 0,
+  confirmedScans: 0,
+  lastWatchRetry: 0,
+};
+
+export const watchMetrics: WatchMetrics = {
+  eventsReceived: 0,
+  eventsCoalesced: 0,
+  deltaReads: 0,
 };
 
 export let forceFullReconciliation = false;
 
-export function isTokenBearingAssistant(entry: unknown): entry is ClaudeCodeAssistantEntry {
-  if (!entry || typeof entry !== 'object') return false;
+export function configurePolling(config: Record<string, unknown> = {}): void {
+  const seconds = config.pollIntervalSeconds;
+  const next = typeof seconds === 'number' && Number.isFinite(seconds) && seconds > 0
+    ? seconds * 1000
+    : DEFAULT_POLL_INTERVAL_MS;
+  if (next === watchHealth.pollIntervalMs) return;
+
+  watchHealth.pollIntervalMs = next;
+  if (watchHealth.pollTimer) {
+    clearInterval(watchHealth.pollTimer);
+    watchHealth.pollTimer = setInterval(() => scheduleScan(scanChangedFiles), next);
+  }
+}
+
+export function getWatchMode(): WatchModeStatus {
+  const status: WatchModeStatus = { mode: watchHealth.mode, pollIntervalMs: watchHealth.pollIntervalMs };
+  if (watchHealth.reason !== undefined) {
+    status.reason = watchHealth.reason;
+  }
+  if (watchHealth.since !== undefined) {
+    status.since = watchHealth.since;
+  }
+  return status;
+}
 
-  const candidate = entry as Partial<ClaudeCodeAssistantEntry>;
-  if (candidate.type !== 'assistant') return false;
-  if (!candidate.message || typeof candidate.message !== 'object') return false;
+function switchToPolling(reason: string): void {
+  if (watchHealth.mode === 'poll') return;
+
+  watchHealth.mode = 'poll';
+  watchHealth.reason = reason;
+  watchHealth.since = Date.now();
+  watchHealth.confirmedScans = 0;
+  watchHealth.lastWatchRetry = watchHealth.since;
+  if (watchHealth.healthTimer) {
+    clearInterval(watchHealth.healthTimer);
+    watchHealth.healthTimer = null;
+  }
+  if (watcherCore.refCount > 0) {
+    watchHealth.pollTimer = setInterval(() => scheduleScan(scanChangedFiles), watchHealth.pollIntervalMs);
+  }
+}
 
-  const model = candidate.message.model;
-  const usage = candidate.message.usage;
-  if (typeof model !== 'string' || model.trim().length === 0) return false;
-  if (!usage || typeof usage !== 'object') return false;
-  if (typeof usage.input_tokens !== 'number' || usage.input_tokens <= 0) return false;
-  if (typeof usage.output_tokens !== 'number') return false;
-  if (typeof usage.cache_creation_input_tokens !== 'number') return false;
-  if (typeof usage.cache_read_input_tokens !== 'number') return false;
-  if (typeof candidate.message.id !== 'string' || candidate.message.id.length === 0) return false;
+function switchToWatching(): void {
+  watchHealth.mode = 'watch';
+  watchHealth.reason = undefined;
+  watchHealth.since = Date.now();
+  watchHealth.confirmedScans = 0;
+  if (watchHealth.pollTimer) {
+    clearInterval(watchHealth.pollTimer);
+    watchHealth.pollTimer = null;
+  }
+  startWatchHealth();
+}
 
-  return true;
+// Polling also sees which changes the watchers reported. Once they keep up with
+// every change for a few scans in a row (for example after the watch limit was
+// raised), watch mode is trusted again.
+function noteWatchRecovery(changed: number, missed: number): void {
+  if (watchHealth.mode !== 'poll' || changed === 0) return;
+  if (missed > 0) {
+    watchHealth.confirmedScans = 0;
+    return;
+  }
+  watchHealth.confirmedScans++;
+  if (watchHealth.confirmedScans >= WATCH_RECOVERY_SCANS) {
+    switchToWatching();
+  }
 }
 
-export function toTimestamp(value: string | undefined): number {
-  if (!value) return Date.now();
-  const parsed = Date.parse(value);
-  return Number.isFinite(parsed) ? parsed : Date.now();
+export function noteWatchError(error: unknown): void {
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  if (code && WATCH_FAILURE_CODES.has(code)) {
+    switchToPolling(`fs.watch failed with ${code}`);
+  }
 }
 
-function watchProjectDirForActivity(projectDirPath: string): void {
-  if (activityWatcher.projectWatchers.has(projectDirPath)) return;
+function noteWatchEvent(filePath: string): void {
+  watchHealth.eventsSinceScan.add(filePath);
+}
 
+// A failed watcher leaves its map so that the directory can be watched again once
+// it is recreated.
+function watchDirectory(
+  dirPath: string,
+  watchers: Map<string, fsSync.FSWatcher>,
+  listener: (eventType: string, filename: string | null) => void,
+): void {
   try {
-    const watcher = fsSync.watch(projectDirPath, (_eventType, filename) => {
-      if (!filename || !filename.endsWith('.jsonl')) return;
-      const filePath = path.join(projectDirPath, filename);
-      void processJsonlDelta(filePath);
+    const watcher = fsSync.watch(dirPath, listener);
+    watcher.on('error', (error) => {
+      watcher.close();
+      if (watchers.get(dirPath) === watcher) {
+        watchers.delete(dirPath);
+      }
+      noteWatchError(error);
     });
+    watchers.set(dirPath, watcher);
+  } catch (error) {
+    noteWatchError(error);
+  }
+}
 
-    activityWatcher.projectWatchers.set(projectDirPath, watcher);
-  } catch {
+async function scanSessionFiles(): Promise<Map<string, FileStamp>> {
+  const files = new Map<string, FileStamp>();
+
+  for (const projectDirPath of await getProjectDirs()) {
+    let entries;
+    try {
+      entries = await fs.readdir(projectDirPath, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isFile() || !entry.name.endsWith('.jsonl')) continue;
+
+      const filePath = path.join(projectDirPath, entry.name);
+      try {
+        const stat = await fs.stat(filePath);
+        files.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size });
+      } catch {
+      }
+    }
+  }
+
+  return files;
+}
+
+function stampChanged(before: FileStamp | undefined, after: FileStamp): boolean {
+  return !before || before.mtimeMs !== after.mtimeMs || before.size !== after.size;
+}
+
+function dispatchFileChange(filePath: string): void {
+  if (sessionWatcher.started) {
+    sessionWatcher.dirtyPaths.add(filePath);
+  }
+  if (activityWatcher.callback) {
+    scheduleJsonlDelta(filePath);
   }
 }
 
-async function primeProjectOffsets(projectDirPath: string): Promise<void> {
+function queueScan(scan: () => Promise<void>): Promise<void> {
+  const next = watchHealth.scanQueue.catch(() => {}).then(scan);
+  watchHealth.scanQueue = next;
+  return next;
+}
+
+function scheduleScan(scan: () => Promise<void>): void {
+  if (watchHealth.scanning) return;
+  void queueScan(scan);
+}
+
+// Some filesystems (network mounts, WSL drives, Docker bind mounts) accept fs.watch
+// but never deliver events. A transcript that changed well before the scan without
+// any event for it means the watchers cannot be trusted.
+export function checkWatchHealth(now = Date.now()): Promise<void> {
+  return queueScan(() => scanWatchHealth(now));
+}
+
+async function scanWatchHealth(now = Date.now()): Promise<void> {
+  if (watchHealth.mode !== 'watch') return;
+  watchHealth.scanning = true;
+  const epoch = watchHealth.epoch;
+
+  try {
+    const seen = watchHealth.eventsSinceScan;
+    watchHealth.eventsSinceScan = new Set();
+
+    const previous = watchHealth.snapshot;
+    const current = await scanSessionFiles();
+    if (epoch !== watchHealth.epoch) return;
+
+    watchHealth.snapshot = current;
+    if (!previous) return;
+
+    const missed: string[] = [];
+    let stale = false;
+    for (const [filePath, stamp] of current) {
+      if (!stampChanged(previous.get(filePath), stamp) || seen.has(filePath)) continue;
+
+      missed.push(filePath);
+      if (stamp.mtimeMs <= now - WATCH_EVENT_GRACE_MS) {
+        stale = true;
+      }
+    }
+    if (!stale) return;
+
+    switchToPolling('no fs.watch events for changed session files');
+    for (const filePath of missed) {
+      dispatchFileChange(filePath);
+    }
+  } finally {
+    if (epoch === watchHealth.epoch) {
+      watchHealth.scanning = false;
+    }
+  }
+}
+
+export function pollSessionFiles(): Promise<void> {
+  return queueScan(scanChangedFiles);
+}
+
+async function scanChangedFiles(now = Date.now()): Promise<void> {
+  watchHealth.scanning = true;
+  const epoch = watchHealth.epoch;
+
+  try {
+    // Watchers that failed are retried now and then so that they can recover.
+    if (now - watchHealth.lastWatchRetry >= WATCH_HEALTH_CHECK_INTERVAL_MS) {
+      watchHealth.lastWatchRetry = now;
+      await watchSessionDirs();
+      if (epoch !== watchHealth.epoch) return;
+    }
+
+    const seen = watchHealth.eventsSinceScan;
+    watchHealth.eventsSinceScan = new Set();
+
+    const previous = watchHealth.snapshot ?? new Map<string, FileStamp>();
+    const current = await scanSessionFiles();
+    if (epoch !== watchHealth.epoch) return;
+
+    watchHealth.snapshot = current;
+
+    let changed = 0;
+    let missed = 0;
+    for (const [filePath, stamp] of current) {
+      if (stampChanged(previous.get(filePath), stamp)) {
+        changed++;
+        if (!seen.has(filePath)) missed++;
+        dispatchFileChange(filePath);
+      }
+    }
+    for (const filePath of previous.keys()) {
+      if (!current.has(filePath)) {
+        dispatchFileChange(filePath);
+      }
+    }
+    noteWatchRecovery(changed, missed);
+  } finally {
+    if (epoch === watchHealth.epoch) {
+      watchHealth.scanning = false;
+    }
+  }
+}
+
+// The health check stats every transcript, so it only runs while the activity watch
+// needs timely events. The parser's reconciliation sweep catches what the session
+// watcher alone misses.
+function startWatchHealth(): void {
+  if (watcherCore.refCount === 0) return;
+  if (watchHealth.mode === 'poll') {
+    watchHealth.pollTimer ??= setInterval(() => scheduleScan(scanChangedFiles), watchHealth.pollIntervalMs);
+    return;
+  }
+  if (watchHealth.healthTimer || !activityWatcher.started) return;
+
+  watchHealth.healthTimer = setInterval(() => scheduleScan(scanWatchHealth), WATCH_HEALTH_CHECK_INTERVAL_MS);
+  void checkWatchHealth();
+}
+
+function pauseWatchHealth(): void {
+  if (watchHealth.healthTimer) {
+    clearInterval(watchHealth.healthTimer);
+    watchHealth.healthTimer = null;
+  }
+}
+
+function stopWatchHealth(): void {
+  if (watchHealth.healthTimer) {
+    clearInterval(watchHealth.healthTimer);
+    watchHealth.healthTimer = null;
+  }
+  if (watchHealth.pollTimer) {
+    clearInterval(watchHealth.pollTimer);
+    watchHealth.pollTimer = null;
+  }
+  watchHealth.mode = 'watch';
+  watchHealth.reason = undefined;
+  watchHealth.since = undefined;
+  watchHealth.snapshot = null;
+  watchHealth.eventsSinceScan.clear();
+  watchHealth.scanning = false;
+  watchHealth.epoch++;
+  watchHealth.confirmedScans = 0;
+  watchHealth.lastWatchRetry = 0;
+}
+
+export function configureWatchDebounce(config: Record<string, unknown> = {}): void {
+  const debounceMs = config.watchDebounceMs;
+  const maxLatencyMs = config.watchMaxLatencyMs;
+
+  activityWatcher.debounceMs = typeof debounceMs === 'number' && Number.isFinite(debounceMs) && debounceMs >= 0
+    ? debounceMs
+    : DEFAULT_WATCH_DEBOUNCE_MS;
+  activityWatcher.maxLatencyMs = typeof maxLatencyMs === 'number' && Number.isFinite(maxLatencyMs) && maxLatencyMs >= 0
+    ? Math.max(maxLatencyMs, activityWatcher.debounceMs)
+    : Math.max(DEFAULT_WATCH_MAX_LATENCY_MS, activityWatcher.debounceMs);
+}
+
+// Streaming output appends many lines in quick succession. Events for a file are
+// folded into one read once the file has been quiet for the debounce window, but a
+// steady stream is still read at least once per max latency.
+export function scheduleJsonlDelta(filePath: string): void {
+  watchMetrics.eventsReceived++;
+
+  const now = Date.now();
+  const pending = activityWatcher.pendingDeltas.get(filePath);
+  if (pending) {
+    clearTimeout(pending.timer);
+    watchMetrics.eventsCoalesced++;
+  }
+
+  const firstEventAt = pending?.firstEventAt ?? now;
+  const delay = Math.max(0, Math.min(activityWatcher.debounceMs, firstEventAt + activityWatcher.maxLatencyMs - now));
+  const timer = setTimeout(() => {
+    activityWatcher.pendingDeltas.delete(filePath);
+    void processJsonlDelta(filePath);
+  }, delay);
+  activityWatcher.pendingDeltas.set(filePath, { firstEventAt, timer });
+}
+
+function logWatchMetrics(): void {
+  const logged = activityWatcher.loggedMetrics;
+  if (!activityWatcher.logger || watchMetrics.eventsReceived === logged.eventsReceived) return;
+
+  activityWatcher.logger.debug('Claude Code: activity watch events', {
+    eventsReceived: watchMetrics.eventsReceived - logged.eventsReceived,
+    eventsCoalesced: watchMetrics.eventsCoalesced - logged.eventsCoalesced,
+    deltaReads: watchMetrics.deltaReads - logged.deltaReads,
+  });
+  activityWatcher.loggedMetrics = { ...watchMetrics };
+}
+
+export function configureSessionIdleTimeout(config: Record<string, unknown> = {}): void {
+  const minutes = config.sessionIdleMinutes;
+  activityWatcher.idleTimeoutMs = typeof minutes === 'number' && Number.isFinite(minutes) && minutes > 0
+    ? minutes * 60 * 1000
+    : DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+}
+
+export function onSessionLifecycle(listener: SessionLifecycleListener): () => void {
+  activityWatcher.lifecycleListeners.add(listener);
+  return () => {
+    activityWatcher.lifecycleListeners.delete(listener);
+  };
+}
+
+function createSessionActivity(filePath: string, idle: boolean): SessionActivity {
+  return {
+    sessionId: path.basename(filePath, '.jsonl'),
+    claudeHome: claudeCodeHomeForProjectDir(path.dirname(filePath)),
+    idle,
+    idleTimer: null,
+  };
+}
+
+function noteSessionEntries(session: SessionActivity, entries: unknown[]): void {
+  const objects = entries.filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object');
+  session.launchCwd ??= extractProjectPath(objects as Array<{ cwd?: string }>);
+  session.sessionName = extractSlug(objects) ?? session.sessionName;
+}
+
+// The parser resolves the canonical project once per file. A transcript it has not
+// read yet is resolved here from its first cwd, or its directory name until one
+// shows up.
+async function resolveSessionProject(filePath: string, session: SessionActivity): Promise<void> {
+  const parsed = sessionAggregateCache.get(filePath)?.project;
+  if (parsed) {
+    session.projectPath = parsed.projectPath;
+    return;
+  }
+  if (session.projectPath !== undefined && session.projectCwd === session.launchCwd) return;
+
+  const project = await resolveProjectIdentity(
+    path.basename(path.dirname(filePath)),
+    session.launchCwd ? [session.launchCwd] : [],
+  );
+  session.projectPath = project?.projectPath;
+  session.projectCwd = session.launchCwd;
+}
+
+function emitLifecycle(type: SessionLifecycleEventType, filePath: string, session: SessionActivity): void {
+  const event: SessionLifecycleEvent = {
+    type,
+    sessionId: session.sessionId,
+    filePath,
+    claudeHome: session.claudeHome,
+    timestamp: Date.now(),
+  };
+  if (session.projectPath) {
+    event.projectPath = session.projectPath;
+  }
+  if (session.sessionName) {
+    event.sessionName = session.sessionName;
+  }
+
+  for (const listener of activityWatcher.lifecycleListeners) {
+    listener(event);
+  }
+}
+
+function scheduleIdle(filePath: string, session: SessionActivity): void {
+  if (session.idleTimer) {
+    clearTimeout(session.idleTimer);
+  }
+  session.idleTimer = setTimeout(() => {
+    session.idleTimer = null;
+    session.idle = true;
+    pruneMessageOwners();
+    emitLifecycle('idle', filePath, session);
+  }, activityWatcher.idleTimeoutMs);
+  session.idleTimer.unref?.();
+}
+
+function forgetMessageOwners(filePath: string): void {
+  for (const [messageId, owner] of activityWatcher.messageOwners) {
+    if (owner === filePath) {
+      activityWatcher.messageOwners.delete(messageId);
+    }
+  }
+}
+
+// Owners only matter while files are being appended to. A transcript that starts
+// later seeds them again from the parser's cache.
+function pruneMessageOwners(): void {
+  for (const [messageId, owner] of activityWatcher.messageOwners) {
+    if (activityWatcher.sessions.get(owner)?.idle !== false) {
+      activityWatcher.messageOwners.delete(messageId);
+    }
+  }
+}
+
+// `--resume` starts a new transcript that copies the earlier conversation. Copied
+// messages were reported from the earlier file already, either live or through
+// the parser's cache, so a new file first learns which ids other files own.
+function seedMessageOwners(filePath: string): void {
+  for (const [cachedPath, aggregate] of sessionAggregateCache) {
+    if (cachedPath === filePath) continue;
+    for (const row of aggregate.visibleRows ?? aggregate.usageRows) {
+      const messageId = row.metadata?.messageId;
+      if (typeof messageId === 'string' && !activityWatcher.messageOwners.has(messageId)) {
+        activityWatcher.messageOwners.set(messageId, cachedPath);
+      }
+    }
+  }
+}
+
+function isOwnedElsewhere(messageId: string, filePath: string): boolean {
+  const owner = activityWatcher.messageOwners.get(messageId);
+  if (owner === undefined) {
+    activityWatcher.messageOwners.set(messageId, filePath);
+    return false;
+  }
+  return owner !== filePath;
+}
+
+function endSession(filePath: string): void {
+  forgetMessageOwners(filePath);
+  const session = activityWatcher.sessions.get(filePath);
+  if (!session) return;
+
+  if (session.idleTimer) {
+    clearTimeout(session.idleTimer);
+  }
+  activityWatcher.sessions.delete(filePath);
+  emitLifecycle('deleted', filePath, session);
+}
+
+// Files already on disk when the watch starts are treated as idle sessions, so their
+// next append reports `resumed`. Files in a project directory that appears while
+// watching are new sessions and report `started` straight away.
+async function primeProjectOffsets(projectDirPath: string, announce = false): Promise<void> {
   let entries;
   try {
     entries = await fs.readdir(projectDirPath, { withFileTypes: true });
@@ -96,111 +651,264 @@ async function primeProjectOffsets(projectDirPath: string): Promise<void> {
     const filePath = path.join(projectDirPath, entry.name);
     try {
       const stat = await fs.stat(filePath);
-      activityWatcher.fileOffsets.set(filePath, stat.size);
+      if (!activityWatcher.fileOffsets.has(filePath)) {
+        activityWatcher.fileOffsets.set(filePath, stat.size);
+      }
+      if (!activityWatcher.sessions.has(filePath)) {
+        const session = createSessionActivity(filePath, !announce);
+        activityWatcher.sessions.set(filePath, session);
+        if (announce) {
+          emitLifecycle('started', filePath, session);
+          scheduleIdle(filePath, session);
+        }
+      }
     } catch {
     }
   }
 }
 
-async function processJsonlDelta(filePath: string): Promise<void> {
-  const callback = activityWatcher.callback;
-  if (!callback) return;
+// A delta read that outlives `stopActivityWatch` must not touch the state of the
+// next watch, so every await is followed by this check.
+function isStale(generation: number): boolean {
+  return activityWatcher.generation !== generation || !activityWatcher.callback;
+}
+
+async function getEntryContext(
+  filePath: string,
+  startOffset: number,
+  mtimeMs: number,
+  session: SessionActivity,
+  generation: number,
+): Promise<EntryContext | undefined> {
+  let context = activityWatcher.entryContexts.get(filePath);
+  if (context && startOffset > 0) {
+    context.fallbackTimestamp = mtimeMs;
+    return context;
+  }
+
+  // The parser's state for the same offset saves replaying the transcript. It is
+  // copied because the parser keeps appending to it.
+  const parsed = sessionAggregateCache.get(filePath);
+  const parseState = parsed?.cursor?.offset === startOffset ? parsed.parseState : undefined;
+  if (parseState && startOffset > 0) {
+    context = createEntryContext(
+      mtimeMs,
+      new Map(parseState.sidechainRoots),
+      cloneToolUseState(parseState.toolUse),
+      cloneCompactionState(parseState.compaction),
+    );
+    session.launchCwd ??= parseState.projectPath;
+    session.sessionName ??= parseState.sessionName;
+    activityWatcher.entryContexts.set(filePath, context);
+    return context;
+  }
+
+  context = createEntryContext(mtimeMs);
+  if (startOffset > 0) {
+    for await (const entry of readJsonlStream<unknown>(filePath, createJsonlDecoder(), 0, startOffset)) {
+      normalizeEntry(entry, context);
+      noteSessionEntries(session, [entry]);
+    }
+    if (isStale(generation)) return undefined;
+  }
+
+  activityWatcher.entryContexts.set(filePath, context);
+  return context;
+}
+
+export function processJsonlDelta(filePath: string): Promise<void> {
+  const previous = activityWatcher.deltaQueues.get(filePath) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(() => readJsonlDelta(filePath));
+  activityWatcher.deltaQueues.set(filePath, next);
+
+  const release = (): void => {
+    if (activityWatcher.deltaQueues.get(filePath) === next) {
+      activityWatcher.deltaQueues.delete(filePath);
+    }
+  };
+  next.then(release, release);
+
+  return next;
+}
+
+function forgetFile(filePath: string): void {
+  activityWatcher.fileOffsets.delete(filePath);
+  activityWatcher.fileDecoders.delete(filePath);
+  activityWatcher.entryContexts.delete(filePath);
+}
+
+async function readJsonlDelta(filePath: string): Promise<void> {
+  if (!activityWatcher.callback) return;
+  const generation = activityWatcher.generation;
+  watchMetrics.deltaReads++;
 
   let stat: Awaited<ReturnType<typeof fs.stat>>;
   try {
     stat = await fs.stat(filePath);
   } catch {
-    activityWatcher.fileOffsets.delete(filePath);
+    if (isStale(generation)) return;
+    forgetFile(filePath);
+    endSession(filePath);
     return;
   }
+  if (isStale(generation)) return;
 
   const knownOffset = activityWatcher.fileOffsets.get(filePath) ?? 0;
-  const startOffset = stat.size < knownOffset ? 0 : knownOffset;
+  if (stat.size < knownOffset) {
+    forgetFile(filePath);
+  }
 
+  const startOffset = activityWatcher.fileOffsets.get(filePath) ?? 0;
   if (stat.size === startOffset) return;
 
-  let chunk: string;
+  let decoder = activityWatcher.fileDecoders.get(filePath);
+  if (!decoder) {
+    decoder = createJsonlDecoder();
+    activityWatcher.fileDecoders.set(filePath, decoder);
+  }
+
+  // A failed open or read leaves the offset where it was, and the decoder gets back
+  // the partial line it held, so the next event retries the same bytes.
+  const remainder = jsonlDecoderRemainder(decoder);
+  const entries: unknown[] = [];
+  let handle: fs.FileHandle | undefined;
   try {
-    const handle = await fs.open(filePath, 'r');
-    const length = stat.size - startOffset;
-    const buffer = Buffer.alloc(length);
-    await handle.read(buffer, 0, length, startOffset);
-    await handle.close();
-    chunk = buffer.toString('utf-8');
+    handle = await fs.open(filePath, 'r');
+    for await (const entry of readJsonlStream<unknown>(handle, decoder, startOffset, stat.size)) {
+      entries.push(entry);
+    }
   } catch {
+    if (!isStale(generation)) {
+      decoder.pending = remainder.length > 0 ? [remainder] : [];
+    }
     return;
+  } finally {
+    await handle?.close();
   }
+  if (isStale(generation)) return;
 
   activityWatcher.fileOffsets.set(filePath, stat.size);
 
-  const sessionId = path.basename(filePath, '.jsonl');
-  const lines = chunk.split(/\r?\n/);
+  let session = activityWatcher.sessions.get(filePath);
+  const lifecycle: SessionLifecycleEventType | undefined = !session ? 'started' : session.idle ? 'resumed' : undefined;
+  if (!session) {
+    session = createSessionActivity(filePath, false);
+    activityWatcher.sessions.set(filePath, session);
+  }
 
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed) continue;
+  const { sessionId, claudeHome } = session;
+  const context = await getEntryContext(filePath, startOffset, stat.mtimeMs, session, generation);
+  if (!context || isStale(generation)) return;
+  noteSessionEntries(session, entries);
+  await resolveSessionProject(filePath, session);
+  if (isStale(generation)) return;
+  const callback = activityWatcher.callback!;
+  if (startOffset === 0) {
+    seedMessageOwners(filePath);
+  }
 
-    let entry: unknown;
-    try {
-      entry = JSON.parse(trimmed) as unknown;
-    } catch {
-      continue;
-    }
+  session.idle = false;
+  if (lifecycle) {
+    emitLifecycle(lifecycle, filePath, session);
+  }
+  scheduleIdle(filePath, session);
 
-    if (!isTokenBearingAssistant(entry)) continue;
+  for (const entry of entries) {
+    const record = normalizeEntry(entry, context);
+    if (!record || isOwnedElsewhere(record.messageId, filePath)) continue;
 
-    const tokens: ActivityUpdate['tokens'] = {
-      input: entry.message.usage.input_tokens,
-      output: entry.message.usage.output_tokens,
+    const update: ClaudeCodeActivityUpdate = {
+      sessionId,
+      messageId: record.messageId,
+      tokens: record.tokens,
+      timestamp: record.timestamp,
+      metadata: { claudeHome, ...record.metadata },
     };
-    if (entry.message.usage.cache_read_input_tokens > 0) {
-      tokens.cacheRead = entry.message.usage.cache_read_input_tokens;
+    const liveUsage: LiveUsage = {
+      messageId: record.messageId,
+      sessionId,
+      modelId: record.modelId,
+      tokens: record.tokens,
+      timestamp: record.timestamp,
+    };
+    if (record.cost !== undefined) {
+      update.cost = record.cost;
+      liveUsage.cost = record.cost;
     }
-    if (entry.message.usage.cache_creation_input_tokens > 0) {
-      tokens.cacheWrite = entry.message.usage.cache_creation_input_tokens;
+    if (session.projectPath) {
+      liveUsage.projectPath = session.projectPath;
     }
 
-    callback({
-      sessionId,
-      messageId: entry.message.id,
-      tokens,
-      timestamp: toTimestamp(entry.timestamp),
-    });
+    callback(update);
+    recordBudgetUsage(liveUsage);
+    recordRateUsage(liveUsage);
   }
 }
 
 export function watchProjectDir(projectDirPath: string): void {
-  if (sessionWatcher.projectWatchers.has(projectDirPath)) return;
+  if (watcherCore.refCount === 0 || watcherCore.projectWatchers.has(projectDirPath)) return;
 
-  try {
-    const watcher = fsSync.watch(projectDirPath, (_eventType, filename) => {
-      if (filename?.endsWith('.jsonl')) {
-        const filePath = path.join(projectDirPath, filename);
-        sessionWatcher.dirtyPaths.add(filePath);
+  watchDirectory(projectDirPath, watcherCore.projectWatchers, (_eventType, filename) => {
+    if (!filename || !filename.endsWith('.jsonl')) return;
+    const filePath = path.join(projectDirPath, filename);
+    noteWatchEvent(filePath);
+    dispatchFileChange(filePath);
+  });
+}
+
+// The session watcher (used by the parser) and the activity watch share one set of
+// directory watches. Each holds a reference; the watches close with the last one.
+function retainWatcherCore(): void {
+  watcherCore.refCount++;
+  if (watcherCore.refCount > 1) return;
+
+  void watchSessionDirs();
+  startWatchHealth();
+}
+
+// Watches every projects directory and project directory that is not watched yet.
+async function watchSessionDirs(): Promise<void> {
+  for (const projectsPath of getProjectsPaths()) {
+    if (watcherCore.refCount === 0 || watcherCore.rootWatchers.has(projectsPath)) continue;
+
+    watchDirectory(projectsPath, watcherCore.rootWatchers, (eventType, filename) => {
+      if (eventType !== 'rename' || !filename) return;
+
+      const projectDirPath = path.join(projectsPath, filename);
+      watchProjectDir(projectDirPath);
+      if (activityWatcher.started) {
+        void primeProjectOffsets(projectDirPath, true);
       }
     });
-    sessionWatcher.projectWatchers.set(projectDirPath, watcher);
-  } catch {
+  }
+
+  for (const dirPath of await getProjectDirs()) {
+    watchProjectDir(dirPath);
   }
 }
 
-export function startSessionWatcher(): void {
-  if (sessionWatcher.started) return;
-  sessionWatcher.started = true;
+function releaseWatcherCore(): void {
+  if (watcherCore.refCount === 0) return;
+  watcherCore.refCount--;
+  if (watcherCore.refCount > 0) return;
 
-  try {
-    sessionWatcher.rootWatcher = fsSync.watch(CLAUDE_CODE_PROJECTS_PATH, (eventType, filename) => {
-      if (eventType !== 'rename' || !filename) return;
-      watchProjectDir(path.join(CLAUDE_CODE_PROJECTS_PATH, filename));
-    });
-  } catch {
+  for (const watcher of watcherCore.projectWatchers.values()) {
+    watcher.close();
   }
+  watcherCore.projectWatchers.clear();
 
-  void getProjectDirs().then((dirs) => {
-    for (const dirPath of dirs) {
-      watchProjectDir(dirPath);
-    }
-  });
+  for (const watcher of watcherCore.rootWatchers.values()) {
+    watcher.close();
+  }
+  watcherCore.rootWatchers.clear();
+
+  stopWatchHealth();
+}
+
+export function startSessionWatcher(): void {
+  if (sessionWatcher.started) return;
+  sessionWatcher.started = true;
+  retainWatcherCore();
 
   sessionWatcher.reconciliationTimer = setInterval(() => {
     forceFullReconciliation = true;
@@ -213,18 +921,15 @@ export function stopSessionWatcher(): void {
     sessionWatcher.reconciliationTimer = null;
   }
 
-  for (const watcher of sessionWatcher.projectWatchers.values()) {
-    watcher.close();
-  }
-  sessionWatcher.projectWatchers.clear();
-
-  if (sessionWatcher.rootWatcher) {
-    sessionWatcher.rootWatcher.close();
-    sessionWatcher.rootWatcher = null;
+  sessionWatcher.dirtyPaths.clear();
+  if (sessionWatcher.started) {
+    sessionWatcher.started = false;
+    releaseWatcherCore();
   }
+}
 
-  sessionWatcher.dirtyPaths.clear();
-  sessionWatcher.started = false;
+export function requestFullReconciliation(): void {
+  forceFullReconciliation = true;
 }
 
 export function consumeForceFullReconciliation(): boolean {
@@ -235,45 +940,70 @@ export function consumeForceFullReconciliation(): boolean {
   return value;
 }
 
-export function startActivityWatch(callback: ActivityCallback): void {
+export function startActivityWatch(callback: ActivityCallback, logger?: PluginLogger): Promise<void> {
   activityWatcher.callback = callback;
+  activityWatcher.logger = logger ?? activityWatcher.logger;
 
-  if (activityWatcher.started) return;
+  if (activityWatcher.started) return Promise.resolve();
   activityWatcher.started = true;
+  retainWatcherCore();
+  startWatchHealth();
 
-  try {
-    activityWatcher.rootWatcher = fsSync.watch(CLAUDE_CODE_PROJECTS_PATH, (eventType, filename) => {
-      if (eventType !== 'rename' || !filename) return;
-
-      const projectDirPath = path.join(CLAUDE_CODE_PROJECTS_PATH, filename);
-      watchProjectDirForActivity(projectDirPath);
-      void primeProjectOffsets(projectDirPath);
-    });
-  } catch {
-  }
+  activityWatcher.loggedMetrics = { ...watchMetrics };
+  activityWatcher.metricsTimer = setInterval(logWatchMetrics, WATCH_METRICS_LOG_INTERVAL_MS);
 
-  void getProjectDirs().then((dirs) => {
+  return getProjectDirs().then(async (dirs) => {
     for (const dirPath of dirs) {
-      watchProjectDirForActivity(dirPath);
-      void primeProjectOffsets(dirPath);
+      watchProjectDir(dirPath);
     }
+    await Promise.all(dirs.map((dirPath) => primeProjectOffsets(dirPath)));
   });
 }
 
 export function stopActivityWatch(): void {
-  for (const watcher of activityWatcher.projectWatchers.values()) {
-    watcher.close();
+  if (activityWatcher.metricsTimer) {
+    clearInterval(activityWatcher.metricsTimer);
+    activityWatcher.metricsTimer = null;
+    logWatchMetrics();
   }
-  activityWatcher.projectWatchers.clear();
-
-  if (activityWatcher.rootWatcher) {
-    activityWatcher.rootWatcher.close();
-    activityWatcher.rootWatcher = null;
+  for (const pending of activityWatcher.pendingDeltas.values()) {
+    clearTimeout(pending.timer);
   }
+  activityWatcher.pendingDeltas.clear();
 
   activityWatcher.fileOffsets.clear();
+  activityWatcher.fileDecoders.clear();
+  activityWatcher.deltaQueues.clear();
+  activityWatcher.entryContexts.clear();
+  for (const session of activityWatcher.sessions.values()) {
+    if (session.idleTimer) {
+      clearTimeout(session.idleTimer);
+    }
+  }
+  activityWatcher.sessions.clear();
+  activityWatcher.messageOwners.clear();
   activityWatcher.callback = null;
-  activityWatcher.started = false;
+  activityWatcher.logger = null;
+  activityWatcher.generation++;
+  if (activityWatcher.started) {
+    activityWatcher.started = false;
+    pauseWatchHealth();
+    releaseWatcherCore();
+  }
+}
+
+export function restartWatchers(): void {
+  const callback = activityWatcher.callback;
+  const logger = activityWatcher.logger ?? undefined;
+  const sessionWatcherWasStarted = sessionWatcher.started;
 
+  stopActivityWatch();
   stopSessionWatcher();
+
+  if (sessionWatcherWasStarted) {
+    startSessionWatcher();
+  }
+  if (callback) {
+    void startActivityWatch(callback, logger);
+  }
 }
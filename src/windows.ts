@@ -0,0 +1,70 @@
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import { addTokens, emptyTokenTotals } from './summaries.ts';
+import type { UsageWindow, UsageWindowReport } from './types.ts';
+
+export const USAGE_WINDOW_MS = 5 * 60 * 60 * 1000;
+
+export const DEFAULT_USAGE_WINDOW_HISTORY_MS = 7 * 24 * 60 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function openWindow(timestamp: number): UsageWindow {
+  const startedAt = Math.floor(timestamp / HOUR_MS) * HOUR_MS;
+  return {
+    startedAt,
+    endsAt: startedAt + USAGE_WINDOW_MS,
+    firstActivityAt: timestamp,
+    lastActivityAt: timestamp,
+    messageCount: 0,
+    tokens: emptyTokenTotals(),
+    models: {},
+  };
+}
+
+function addRow(window: UsageWindow, row: SessionUsageData): void {
+  window.lastActivityAt = row.timestamp;
+  window.messageCount++;
+  addTokens(window.tokens, row.tokens);
+
+  let model = window.models[row.modelId];
+  if (!model) {
+    model = { messageCount: 0, tokens: emptyTokenTotals() };
+    window.models[row.modelId] = model;
+  }
+  model.messageCount++;
+  addTokens(model.tokens, row.tokens);
+
+  if (row.cost !== undefined) {
+    model.cost = (model.cost ?? 0) + row.cost;
+    window.cost = (window.cost ?? 0) + row.cost;
+  }
+}
+
+// Subscription limits reset five hours after the first message of a window, with
+// the start rounded down to the hour. The next message after a reset opens a new
+// window, so idle stretches belong to no window at all.
+export function computeUsageWindows(rows: SessionUsageData[], now = Date.now(), since?: number): UsageWindowReport {
+  const sorted = [...rows].sort((a, b) => a.timestamp - b.timestamp);
+  const windows: UsageWindow[] = [];
+
+  let window: UsageWindow | undefined;
+  for (const row of sorted) {
+    if (!window || row.timestamp >= window.endsAt) {
+      window = openWindow(row.timestamp);
+      windows.push(window);
+    }
+    addRow(window, row);
+  }
+
+  const report: UsageWindowReport = { history: [] };
+  for (const item of windows.reverse()) {
+    if (since !== undefined && item.endsAt <= since) continue;
+
+    if (!report.current && report.history.length === 0 && item.startedAt <= now && now < item.endsAt) {
+      report.current = { ...item, remainingMs: item.endsAt - now };
+    } else {
+      report.history.push(item);
+    }
+  }
+  return report;
+}
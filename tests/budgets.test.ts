@@ -0,0 +1,192 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import {
+  budgetTracker,
+  clearBudgets,
+  onBudgetAlert,
+  recordBudgetUsage,
+  resetBudgetUsage,
+  seedBudgetUsage,
+  setBudgets,
+  startOfLocalDay,
+  totalBudgetTokens,
+} from '../src/budgets.ts';
+import type { BudgetAlert, LiveUsage } from '../src/types.ts';
+
+const NOON = new Date(2026, 1, 15, 12, 0, 0).getTime();
+const HOUR = 60 * 60 * 1000;
+
+function makeUsage(overrides?: Partial<LiveUsage>): LiveUsage {
+  return {
+    messageId: 'msg_1',
+    sessionId: 'ses-1',
+    modelId: 'claude-opus-4-6',
+    projectPath: '/Users/test/project',
+    tokens: { input: 100, output: 0, cacheRead: 0, cacheWrite: 0 },
+    cost: 0.5,
+    timestamp: NOON,
+    ...overrides,
+  };
+}
+
+function makeRow(overrides?: Partial<SessionUsageData> & { messageId?: string }): SessionUsageData {
+  const { messageId, ...rest } = overrides ?? {};
+  return {
+    sessionId: 'ses-1',
+    providerId: 'anthropic',
+    modelId: 'claude-opus-4-6',
+    tokens: { input: 100, output: 0 },
+    timestamp: NOON,
+    projectPath: '/Users/test/project',
+    metadata: { messageId: messageId ?? 'msg_row' },
+    ...rest,
+  };
+}
+
+describe('budget alerts', () => {
+  let alerts: BudgetAlert[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    alerts = [];
+    resetBudgetUsage(NOON);
+    unsubscribe = onBudgetAlert((alert) => alerts.push(alert));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    clearBudgets();
+    resetBudgetUsage();
+  });
+
+  test('counts every token kind towards the token total', () => {
+    expect(totalBudgetTokens({ input: 1, output: 2, cacheRead: 3, cacheWrite: 4 })).toBe(10);
+    expect(totalBudgetTokens({ input: 1, output: 2 })).toBe(3);
+  });
+
+  test('warns once at the warning ratio and again when the limit is crossed', () => {
+    setBudgets([{ id: 'per-session', scope: 'session', maxTokens: 1000 }], NOON);
+
+    recordBudgetUsage(makeUsage({ messageId: 'msg_1', tokens: { input: 700, output: 0 } }), NOON);
+    recordBudgetUsage(makeUsage({ messageId: 'msg_2', tokens: { input: 100, output: 0 } }), NOON);
+    recordBudgetUsage(makeUsage({ messageId: 'msg_3', tokens: { input: 100, output: 0 } }), NOON);
+    recordBudgetUsage(makeUsage({ messageId: 'msg_4', tokens: { input: 100, output: 0 } }), NOON);
+    recordBudgetUsage(makeUsage({ messageId: 'msg_5', tokens: { input: 100, output: 0 } }), NOON);
+
+    expect(alerts).toEqual([
+      { budgetId: 'per-session', scope: 'session', key: 'ses-1', level: 'warning', metric: 'tokens', value: 800, limit: 1000, timestamp: NOON },
+      { budgetId: 'per-session', scope: 'session', key: 'ses-1', level: 'exceeded', metric: 'tokens', value: 1000, limit: 1000, timestamp: NOON },
+    ]);
+  });
+
+  test('tracks spend separately from tokens', () => {
+    setBudgets([{ id: 'spend', scope: 'day', maxCost: 1, warningRatio: 0.5 }], NOON);
+
+    recordBudgetUsage(makeUsage({ messageId: 'msg_1', cost: 0.6 }), NOON);
+
+    expect(alerts.map((alert) => [alert.metric, alert.level, alert.key])).toEqual([['cost', 'warning', 'day']]);
+  });
+
+  test('keeps separate totals per project and model, and honours match', () => {
+    setBudgets([
+      { id: 'projects', scope: 'project', maxTokens: 150 },
+      { id: 'opus', scope: 'model', match: 'claude-opus-4-6', maxTokens: 150 },
+    ], NOON);
+
+    recordBudgetUsage(makeUsage({ messageId: 'msg_1', projectPath: '/a', modelId: 'claude-opus-4-6' }), NOON);
+    recordBudgetUsage(makeUsage({ messageId: 'msg_2', projectPath: '/b', modelId: 'claude-sonnet-4-5' }), NOON);
+    recordBudgetUsage(makeUsage({ messageId: 'msg_3', projectPath: '/b', modelId: 'claude-sonnet-4-5' }), NOON);
+
+    expect(alerts.map((alert) => [alert.budgetId, alert.key, alert.level])).toEqual([
+      ['projects', '/b', 'exceeded'],
+    ]);
+  });
+
+  test('replaces the usage of a repeated message instead of adding it', () => {
+    setBudgets([{ id: 'per-session', scope: 'session', maxTokens: 1000 }], NOON);
+
+    for (let i = 0; i < 5; i++) {
+      recordBudgetUsage(makeUsage({ messageId: 'msg_streamed', tokens: { input: 300, output: 0 } }), NOON);
+    }
+
+    expect(alerts).toHaveLength(0);
+    expect(budgetTracker.totals.get('session')?.get('ses-1')).toEqual({ tokens: 300, cost: 0.5 });
+  });
+
+  test('keeps a copied message in the session it was first seen in', () => {
+    recordBudgetUsage(makeUsage({ messageId: 'msg_copied', sessionId: 'ses-original' }), NOON);
+    recordBudgetUsage(makeUsage({ messageId: 'msg_copied', sessionId: 'ses-resumed' }), NOON);
+
+    expect(budgetTracker.totals.get('session')?.get('ses-original')?.tokens).toBe(100);
+    expect(budgetTracker.totals.get('session')?.get('ses-resumed')).toBeUndefined();
+  });
+
+  test('leaves earlier days out of day-scoped totals but not session totals', () => {
+    const yesterday = NOON - 24 * HOUR;
+    recordBudgetUsage(makeUsage({ messageId: 'msg_old', timestamp: yesterday }), NOON);
+    recordBudgetUsage(makeUsage({ messageId: 'msg_new' }), NOON);
+
+    expect(budgetTracker.totals.get('day')?.get('day')?.tokens).toBe(100);
+    expect(budgetTracker.totals.get('session')?.get('ses-1')?.tokens).toBe(200);
+  });
+
+  test('starts a new day with fresh totals and re-armed alerts', () => {
+    setBudgets([
+      { id: 'daily', scope: 'day', maxTokens: 100 },
+      { id: 'per-session', scope: 'session', maxTokens: 100 },
+    ], NOON);
+    recordBudgetUsage(makeUsage({ messageId: 'msg_1' }), NOON);
+
+    const tomorrow = NOON + 24 * HOUR;
+    recordBudgetUsage(makeUsage({ messageId: 'msg_2', timestamp: tomorrow }), tomorrow);
+
+    expect(budgetTracker.dayStart).toBe(startOfLocalDay(tomorrow));
+    expect(alerts.map((alert) => [alert.budgetId, alert.value])).toEqual([
+      ['daily', 100],
+      ['per-session', 100],
+      ['daily', 100],
+    ]);
+  });
+
+  test('forgets messages of sessions that went idle before the new day and keeps session totals', () => {
+    recordBudgetUsage(makeUsage({ messageId: 'msg_idle', sessionId: 'ses-idle' }), NOON);
+    const lateEvening = NOON + 11 * HOUR + 45 * 60 * 1000;
+    recordBudgetUsage(makeUsage({ messageId: 'msg_late', sessionId: 'ses-late', timestamp: lateEvening }), lateEvening);
+    expect(budgetTracker.messages.size).toBe(2);
+
+    const afterMidnight = lateEvening + HOUR;
+    recordBudgetUsage(makeUsage({ messageId: 'msg_next', sessionId: 'ses-late', timestamp: afterMidnight }), afterMidnight);
+
+    expect(Array.from(budgetTracker.messages.keys())).toEqual(['msg_late', 'msg_next']);
+    expect(budgetTracker.totals.get('session')?.get('ses-idle')?.tokens).toBe(100);
+    expect(budgetTracker.totals.get('session')?.get('ses-late')?.tokens).toBe(200);
+    expect(budgetTracker.totals.get('day')?.get('day')?.tokens).toBe(100);
+
+    const nextDay = NOON + 48 * HOUR;
+    recordBudgetUsage(makeUsage({ messageId: 'msg_after', sessionId: 'ses-new', timestamp: nextDay }), nextDay);
+    expect(Array.from(budgetTracker.messages.keys())).toEqual(['msg_after']);
+  });
+
+  test('seeds totals from parsed rows and reports only the highest level reached', () => {
+    setBudgets([{ id: 'daily', scope: 'day', maxTokens: 150 }], NOON);
+
+    seedBudgetUsage([
+      makeRow({ messageId: 'msg_a' }),
+      makeRow({ messageId: 'msg_b' }),
+      makeRow({ messageId: 'msg_a' }),
+      makeRow({ metadata: {} }),
+    ], NOON);
+
+    expect(alerts.map((alert) => [alert.level, alert.value])).toEqual([['exceeded', 200]]);
+
+    recordBudgetUsage(makeUsage({ messageId: 'msg_b', tokens: { input: 100, output: 0 } }), NOON);
+    expect(alerts).toHaveLength(1);
+  });
+
+  test('evaluates existing totals when budgets are set', () => {
+    recordBudgetUsage(makeUsage({ messageId: 'msg_1', tokens: { input: 900, output: 0 } }), NOON);
+    setBudgets([{ id: 'per-session', scope: 'session', maxTokens: 1000 }], NOON);
+
+    expect(alerts.map((alert) => alert.level)).toEqual(['warning']);
+  });
+});
@@ -1,5 +1,14 @@
 import { describe, test, expect, beforeEach } from 'bun:test';
-import { evictSessionAggregateCache, sessionAggregateCache, SESSION_AGGREGATE_CACHE_MAX } from '../src/cache.ts';
+import {
+  evictSessionAggregateCache,
+  getSessionFilePaths,
+  indexSessionFile,
+  sessionAggregateCache,
+  sessionFilesById,
+  sessionMetadataIndex,
+  SESSION_AGGREGATE_CACHE_MAX,
+  unindexSessionFile,
+} from '../src/cache.ts';
 
 beforeEach(() => {
   sessionAggregateCache.clear();
@@ -57,3 +66,30 @@ describe('evictSessionAggregateCache', () => {
     expect(sessionAggregateCache.size).toBe(SESSION_AGGREGATE_CACHE_MAX);
   });
 });
+
+describe('session file index', () => {
+  beforeEach(() => {
+    sessionMetadataIndex.clear();
+    sessionFilesById.clear();
+  });
+
+  test('tracks every file that shares a session id', () => {
+    indexSessionFile('/a/ses-1.jsonl', { sessionId: 'ses-1', mtimeMs: 1, size: 1, dev: 1, ino: 10 });
+    indexSessionFile('/b/ses-1.jsonl', { sessionId: 'ses-1', mtimeMs: 1, size: 1, dev: 1, ino: 11 });
+
+    expect(getSessionFilePaths('ses-1').sort()).toEqual(['/a/ses-1.jsonl', '/b/ses-1.jsonl']);
+  });
+
+  test('unindexing a file drops its aggregate entry and id mapping', () => {
+    indexSessionFile('/a/ses-1.jsonl', { sessionId: 'ses-1', mtimeMs: 1, size: 1, dev: 1, ino: 10 });
+    indexSessionFile('/b/ses-1.jsonl', { sessionId: 'ses-1', mtimeMs: 1, size: 1, dev: 1, ino: 11 });
+    sessionAggregateCache.set('/a/ses-1.jsonl', { updatedAt: 1, usageRows: [], lastAccessed: 1 });
+
+    unindexSessionFile('/a/ses-1.jsonl');
+    expect(sessionAggregateCache.has('/a/ses-1.jsonl')).toBe(false);
+    expect(getSessionFilePaths('ses-1')).toEqual(['/b/ses-1.jsonl']);
+
+    unindexSessionFile('/b/ses-1.jsonl');
+    expect(sessionFilesById.has('ses-1')).toBe(false);
+  });
+});
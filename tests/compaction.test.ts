@@ -0,0 +1,69 @@
+import { describe, test, expect } from 'bun:test';
+import { createCompactionState, trackCompactionBoundary, trackCompactionUsage } from '../src/compaction.ts';
+import type { ClaudeCodeUsageInfo } from '../src/types.ts';
+
+function usage(input: number, cacheRead: number, cacheWrite: number): ClaudeCodeUsageInfo {
+  return {
+    input_tokens: input,
+    output_tokens: 100,
+    cache_read_input_tokens: cacheRead,
+    cache_creation_input_tokens: cacheWrite,
+  };
+}
+
+const BOUNDARY = {
+  type: 'system',
+  subtype: 'compact_boundary',
+  compactMetadata: { trigger: 'manual', preTokens: 160_000 },
+};
+
+describe('compaction tracking', () => {
+  test('records reported pre-compaction size and the next turn as post size', () => {
+    const state = createCompactionState();
+    trackCompactionUsage(state, 'msg_1', usage(5, 150_000, 1000));
+    trackCompactionBoundary(state, BOUNDARY, 1000);
+
+    expect(trackCompactionUsage(state, 'msg_2', usage(5, 0, 12_000))).toEqual({
+      timestamp: 1000,
+      trigger: 'manual',
+      preTokens: 160_000,
+      preTokensInferred: false,
+      postTokens: 12_005,
+    });
+  });
+
+  test('infers pre-compaction size from the last turn when not reported', () => {
+    const state = createCompactionState();
+    trackCompactionUsage(state, 'msg_1', usage(5, 150_000, 1000));
+    trackCompactionBoundary(state, { type: 'user', isCompactSummary: true, message: { content: 'summary' } }, 2000);
+
+    const event = trackCompactionUsage(state, 'msg_2', usage(5, 0, 9000))!;
+    expect(event.preTokens).toBe(151_005);
+    expect(event.preTokensInferred).toBe(true);
+    expect(event.trigger).toBeUndefined();
+  });
+
+  test('counts a boundary followed by its summary entry once', () => {
+    const state = createCompactionState();
+    trackCompactionBoundary(state, BOUNDARY, 1000);
+    trackCompactionBoundary(state, { type: 'user', isCompactSummary: true }, 1001);
+
+    expect(trackCompactionUsage(state, 'msg_2', usage(1, 0, 10))?.timestamp).toBe(1000);
+  });
+
+  test('keeps the event on every streamed entry of the same message and only there', () => {
+    const state = createCompactionState();
+    trackCompactionBoundary(state, BOUNDARY, 1000);
+
+    const first = trackCompactionUsage(state, 'msg_2', usage(1, 0, 10));
+    expect(trackCompactionUsage(state, 'msg_2', usage(1, 0, 10))).toBe(first!);
+    expect(trackCompactionUsage(state, 'msg_3', usage(1, 10, 0))).toBeUndefined();
+  });
+
+  test('ignores ordinary entries', () => {
+    const state = createCompactionState();
+    trackCompactionBoundary(state, { type: 'system', subtype: 'informational' }, 1000);
+    trackCompactionBoundary(state, { type: 'summary', summary: 'Session title', leafUuid: 'u1' }, 1000);
+    expect(trackCompactionUsage(state, 'msg_1', usage(1, 0, 0))).toBeUndefined();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import { clearSessionAggregates, sessionAggregateCache, setSessionAggregate } from '../src/cache.ts';
+import { continuity, resolveConversations, resolveConversationsIfChanged } from '../src/continuity.ts';
+import type { SessionAggregateCacheEntry } from '../src/types.ts';
+
+function row(sessionId: string, messageId: string, timestamp: number): SessionUsageData {
+  return {
+    sessionId,
+    providerId: 'anthropic',
+    modelId: 'claude-opus-4-6',
+    tokens: { input: 1, output: 1 },
+    timestamp,
+    sessionUpdatedAt: 0,
+    metadata: { messageId },
+  };
+}
+
+function aggregate(
+  sessionId: string,
+  rows: Array<[string, number]>,
+  chain: { headParentUuid?: string; tailUuid?: string } = {},
+): SessionAggregateCacheEntry {
+  return {
+    updatedAt: Math.max(...rows.map(([, timestamp]) => timestamp)),
+    lastAccessed: 0,
+    sessionId,
+    ...chain,
+    usageRows: rows.map(([messageId, timestamp]) => row(sessionId, messageId, timestamp)),
+  };
+}
+
+function visibleMessageIds(entry: SessionAggregateCacheEntry): unknown[] {
+  return (entry.visibleRows ?? []).map((usage) => usage.metadata?.messageId);
+}
+
+describe('resolveConversations', () => {
+  test('keeps copied messages only in the original file and links the files', () => {
+    const original = aggregate('ses-a', [['msg_1', 100], ['msg_2', 200]]);
+    const resumed = aggregate('ses-b', [['msg_1', 100], ['msg_2', 200], ['msg_3', 300]]);
+    const aggregates = new Map([['/p/ses-b.jsonl', resumed], ['/p/ses-a.jsonl', original]]);
+
+    resolveConversations(aggregates);
+
+    expect(visibleMessageIds(original)).toEqual(['msg_1', 'msg_2']);
+    expect(visibleMessageIds(resumed)).toEqual(['msg_3']);
+    expect(original.conversationId).toBe('ses-a');
+    expect(resumed.conversationId).toBe('ses-a');
+    expect(resumed.usageRows[2]!.metadata?.conversationId).toBe('ses-a');
+  });
+
+  test('links a file whose first entry continues from the tail of another', () => {
+    const first = aggregate('ses-a', [['msg_1', 100]], { tailUuid: 'uuid-9' });
+    const second = aggregate('ses-b', [['msg_2', 500]], { headParentUuid: 'uuid-9' });
+    const unrelated = aggregate('ses-c', [['msg_3', 600]], { headParentUuid: 'uuid-missing' });
+
+    resolveConversations(new Map([['/p/a.jsonl', first], ['/p/b.jsonl', second], ['/p/c.jsonl', unrelated]]));
+
+    expect(second.conversationId).toBe('ses-a');
+    expect(visibleMessageIds(second)).toEqual(['msg_2']);
+    expect(unrelated.conversationId).toBe('ses-c');
+  });
+
+  test('follows a chain of several resumes back to the first file', () => {
+    const first = aggregate('ses-a', [['msg_1', 100]], { tailUuid: 'uuid-a' });
+    const second = aggregate('ses-b', [['msg_2', 200]], { headParentUuid: 'uuid-a', tailUuid: 'uuid-b' });
+    const third = aggregate('ses-c', [['msg_2', 200], ['msg_3', 300]]);
+
+    resolveConversations(new Map([['/p/c.jsonl', third], ['/p/b.jsonl', second], ['/p/a.jsonl', first]]));
+
+    expect([first, second, third].map((entry) => entry.conversationId)).toEqual(['ses-a', 'ses-a', 'ses-a']);
+    expect(visibleMessageIds(third)).toEqual(['msg_3']);
+  });
+
+  test('drops cached summaries so they are rebuilt from the deduplicated rows', () => {
+    const original = aggregate('ses-a', [['msg_1', 100]]);
+    original.summary = {} as SessionAggregateCacheEntry['summary'];
+
+    resolveConversations(new Map([['/p/a.jsonl', original]]));
+    expect(original.summary).toBeUndefined();
+  });
+});
+
+describe('resolveConversationsIfChanged', () => {
+  afterEach(() => {
+    clearSessionAggregates();
+    resolveConversationsIfChanged(sessionAggregateCache);
+  });
+
+  test('re-resolves only the chains of the files that changed', () => {
+    const first = aggregate('ses-a', [['msg_1', 100]], { tailUuid: 'uuid-a' });
+    const unrelated = aggregate('ses-c', [['msg_9', 50]]);
+    setSessionAggregate('/p/a.jsonl', first);
+    setSessionAggregate('/p/c.jsonl', unrelated);
+    resolveConversationsIfChanged(sessionAggregateCache);
+
+    const summary = {} as SessionAggregateCacheEntry['summary'];
+    first.summary = summary;
+    unrelated.summary = summary;
+
+    const second = aggregate('ses-b', [['msg_1', 100], ['msg_2', 200]], { headParentUuid: 'uuid-a' });
+    setSessionAggregate('/p/b.jsonl', second);
+    resolveConversationsIfChanged(sessionAggregateCache);
+
+    expect(unrelated.summary).toBe(summary);
+    expect(first.summary).toBeUndefined();
+    expect(second.conversationId).toBe('ses-a');
+    expect(visibleMessageIds(second)).toEqual(['msg_2']);
+
+    first.summary = summary;
+    sessionAggregateCache.delete('/p/b.jsonl');
+    setSessionAggregate('/p/b.jsonl', aggregate('ses-b', [['msg_3', 300]]));
+    resolveConversationsIfChanged(sessionAggregateCache);
+
+    expect(first.summary).toBeUndefined();
+    expect(sessionAggregateCache.get('/p/b.jsonl')?.conversationId).toBe('ses-b');
+    expect(unrelated.summary).toBe(summary);
+  });
+
+  test('forgets the links of files that left the cache', () => {
+    setSessionAggregate('/p/a.jsonl', aggregate('ses-a', [['msg_1', 100]], { tailUuid: 'uuid-a' }));
+    resolveConversationsIfChanged(sessionAggregateCache);
+    expect(continuity.messageFiles.size).toBe(1);
+
+    clearSessionAggregates();
+    resolveConversationsIfChanged(sessionAggregateCache);
+    expect(continuity.files.size).toBe(0);
+    expect(continuity.messageFiles.size).toBe(0);
+    expect(continuity.tailOwners.size).toBe(0);
+    expect(continuity.chains.size).toBe(0);
+  });
+});
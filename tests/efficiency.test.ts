@@ -0,0 +1,123 @@
+import { describe, test, expect } from 'bun:test';
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import { analyzeCacheEfficiency, analyzeSessionCache } from '../src/efficiency.ts';
+import { estimateCost } from '../src/pricing.ts';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const T0 = Date.UTC(2026, 1, 15, 9, 0, 0);
+
+function makeRow(
+  messageId: string,
+  minutes: number,
+  cache: { read?: number; write?: number; write1h?: number },
+  overrides?: Partial<SessionUsageData>,
+): SessionUsageData {
+  const metadata: Record<string, unknown> = { messageId };
+  if (cache.write1h !== undefined) {
+    metadata.cacheWrite1h = cache.write1h;
+  }
+  return {
+    sessionId: 'ses-1',
+    projectPath: '/Users/test/project',
+    providerId: 'anthropic',
+    modelId: 'claude-opus-4-6',
+    tokens: { input: 10, output: 100, cacheRead: cache.read ?? 0, cacheWrite: cache.write ?? 0 },
+    timestamp: T0 + minutes * MINUTE,
+    ...overrides,
+    metadata: { ...metadata, ...overrides?.metadata },
+  };
+}
+
+function priced(row: SessionUsageData): SessionUsageData {
+  const { cost } = estimateCost(row.modelId, { ...row.tokens, cacheWrite1h: row.metadata?.cacheWrite1h as number | undefined });
+  return { ...row, cost };
+}
+
+describe('analyzeSessionCache', () => {
+  test('computes hit ratio and savings against an uncached baseline', () => {
+    const efficiency = analyzeSessionCache('ses-1', [
+      priced(makeRow('msg_1', 0, { write: 1000 })),
+      priced(makeRow('msg_2', 1, { read: 1000, write: 200 })),
+      priced(makeRow('msg_3', 2, { read: 1200 })),
+    ], T0 + 2 * HOUR);
+
+    expect(efficiency).toMatchObject({
+      sessionId: 'ses-1',
+      projectPath: '/Users/test/project',
+      messageCount: 3,
+      promptTokens: 3430,
+      cacheRead: 2200,
+      cacheWrite: 1200,
+      wastedCacheWrite: 0,
+      wastedCacheWrite1h: 0,
+      invalidations: [],
+    });
+    expect(efficiency.hitRatio).toBeCloseTo(2200 / 3430);
+    // Reads save 90% of an input token each, 5-minute writes cost 25% extra.
+    expect(efficiency.tokensSaved).toBeCloseTo(2200 * 0.9 - 1200 * 0.25);
+    expect(efficiency.costSaved).toBeCloseTo(((2200 * 0.9 - 1200 * 0.25) * 5) / 1_000_000);
+  });
+
+  test('counts writes that expire before they are read, using the 1-hour split', () => {
+    const rows = [
+      makeRow('msg_1', 0, { write: 1000, write1h: 400 }),
+      makeRow('msg_2', 10, { read: 400, write: 600, write1h: 300 }),
+    ];
+
+    // After ten minutes only the 1-hour part of the first write is still cached.
+    const recent = analyzeSessionCache('ses-1', rows, T0 + 40 * MINUTE);
+    expect([recent.wastedCacheWrite, recent.wastedCacheWrite1h]).toEqual([600 + 300, 0]);
+
+    const later = analyzeSessionCache('ses-1', rows, T0 + 3 * HOUR);
+    expect([later.wastedCacheWrite, later.wastedCacheWrite1h]).toEqual([600 + 600, 300]);
+
+    const live = analyzeSessionCache('ses-1', rows, T0 + 12 * MINUTE);
+    expect(live.wastedCacheWrite).toBe(600);
+  });
+
+  test('flags turns that rebuild a warm cache', () => {
+    const efficiency = analyzeSessionCache('ses-1', [
+      makeRow('msg_1', 0, { write: 5000 }),
+      makeRow('msg_2', 1, { read: 5000, write: 100 }),
+      makeRow('msg_3', 2, { write: 5200 }),
+      makeRow('msg_side', 2.5, { write: 3000 }, { metadata: { sidechainRootUuid: 'uuid-side' } }),
+      makeRow('msg_4', 3, { write: 5300 }, { modelId: 'claude-sonnet-4-5' }),
+      makeRow('msg_5', 4, { write: 2000 }, { modelId: 'claude-sonnet-4-5', metadata: { compaction: { timestamp: T0 } } }),
+      makeRow('msg_6', 30, { write: 2000 }, { modelId: 'claude-sonnet-4-5' }),
+    ], T0 + 2 * HOUR);
+
+    expect(efficiency.invalidations).toEqual([
+      { sessionId: 'ses-1', messageId: 'msg_3', timestamp: T0 + 2 * MINUTE, reason: 'prefix-changed', expectedCacheRead: 5100, cacheRead: 0, cacheWrite: 5200 },
+      { sessionId: 'ses-1', messageId: 'msg_4', timestamp: T0 + 3 * MINUTE, reason: 'model-switch', expectedCacheRead: 5200, cacheRead: 0, cacheWrite: 5300 },
+    ]);
+  });
+});
+
+describe('analyzeCacheEfficiency', () => {
+  test('reports each session and rolls sessions up per project', () => {
+    const report = analyzeCacheEfficiency([
+      makeRow('msg_a1', 0, { write: 1000 }, { sessionId: 'ses-a' }),
+      makeRow('msg_a2', 1, { read: 1000 }, { sessionId: 'ses-a' }),
+      makeRow('msg_b1', 0, { read: 3000 }, { sessionId: 'ses-b' }),
+      makeRow('msg_c1', 0, { read: 500 }, { sessionId: 'ses-c', projectPath: undefined }),
+    ], T0 + 2 * HOUR);
+
+    expect(report.sessions.map((session) => [session.sessionId, session.cacheRead])).toEqual([
+      ['ses-a', 1000],
+      ['ses-b', 3000],
+      ['ses-c', 500],
+    ]);
+    expect(report.projects).toHaveLength(1);
+    expect(report.projects[0]).toMatchObject({
+      projectPath: '/Users/test/project',
+      sessionCount: 2,
+      messageCount: 3,
+      promptTokens: 5030,
+      cacheRead: 4000,
+      cacheWrite: 1000,
+    });
+    expect(report.projects[0]?.hitRatio).toBeCloseTo(4000 / 5030);
+    expect(report.projects[0]?.costSaved).toBeUndefined();
+  });
+});
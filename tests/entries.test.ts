@@ -0,0 +1,206 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  createEntryContext,
+  isTokenBearingAssistant,
+  normalizeEntry,
+  toTimestamp,
+} from '../src/entries.ts';
+import type { ClaudeCodeAssistantEntry } from '../src/types.ts';
+
+function makeAssistantEntry(overrides?: {
+  id?: string;
+  model?: string;
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+  timestamp?: string;
+  uuid?: string;
+  parentUuid?: string | null;
+  isSidechain?: boolean;
+}): ClaudeCodeAssistantEntry {
+  return {
+    type: 'assistant',
+    uuid: overrides?.uuid ?? 'uuid-1',
+    parentUuid: overrides?.parentUuid ?? null,
+    sessionId: 'ses-1',
+    timestamp: overrides?.timestamp ?? '2026-02-15T14:19:00.000Z',
+    cwd: '/Users/test/project',
+    slug: 'my-project',
+    isSidechain: overrides?.isSidechain ?? false,
+    userType: 'external',
+    version: '1.0.0',
+    gitBranch: 'main',
+    requestId: 'req-1',
+    message: {
+      model: overrides?.model ?? 'claude-opus-4-6',
+      id: overrides?.id ?? 'msg_001',
+      type: 'message',
+      role: 'assistant',
+      content: [{ type: 'text', text: 'Hello' }],
+      stop_reason: 'end_turn',
+      stop_sequence: null,
+      usage: {
+        input_tokens: overrides?.input_tokens ?? 3,
+        output_tokens: overrides?.output_tokens ?? 954,
+        cache_creation_input_tokens: overrides?.cache_creation_input_tokens ?? 1297,
+        cache_read_input_tokens: overrides?.cache_read_input_tokens ?? 17890,
+      },
+    },
+  };
+}
+
+function breakType(entry: ClaudeCodeAssistantEntry, path: string, value: unknown): unknown {
+  const clone = JSON.parse(JSON.stringify(entry)) as Record<string, unknown>;
+  const parts = path.split('.');
+  let target = clone;
+  for (let i = 0; i < parts.length - 1; i++) {
+    target = target[parts[i]!] as Record<string, unknown>;
+  }
+  target[parts[parts.length - 1]!] = value;
+  return clone;
+}
+
+describe('isTokenBearingAssistant', () => {
+  test('accepts a valid assistant entry', () => {
+    expect(isTokenBearingAssistant(makeAssistantEntry())).toBe(true);
+  });
+
+  test('rejects null and undefined', () => {
+    expect(isTokenBearingAssistant(null)).toBe(false);
+    expect(isTokenBearingAssistant(undefined)).toBe(false);
+  });
+
+  test('rejects non-object types', () => {
+    expect(isTokenBearingAssistant(42)).toBe(false);
+    expect(isTokenBearingAssistant('assistant')).toBe(false);
+    expect(isTokenBearingAssistant(true)).toBe(false);
+  });
+
+  test('rejects entries with wrong type field', () => {
+    expect(isTokenBearingAssistant({ type: 'user', message: {} })).toBe(false);
+    expect(isTokenBearingAssistant({ type: 'system', message: {} })).toBe(false);
+  });
+
+  test('rejects entries without message object', () => {
+    expect(isTokenBearingAssistant({ type: 'assistant' })).toBe(false);
+    expect(isTokenBearingAssistant({ type: 'assistant', message: 'not an object' })).toBe(false);
+  });
+
+  test('rejects entries with empty or missing model', () => {
+    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.model', ''))).toBe(false);
+    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.model', undefined))).toBe(false);
+  });
+
+  test('rejects entries with missing or invalid usage', () => {
+    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.usage', undefined))).toBe(false);
+    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.usage', 'string'))).toBe(false);
+  });
+
+  test('rejects entries with input_tokens <= 0', () => {
+    expect(isTokenBearingAssistant(makeAssistantEntry({ input_tokens: 0 }))).toBe(false);
+    expect(isTokenBearingAssistant(makeAssistantEntry({ input_tokens: -1 }))).toBe(false);
+  });
+
+  test('rejects entries with non-number output_tokens', () => {
+    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.usage.output_tokens', 'bad'))).toBe(false);
+  });
+
+  test('rejects entries with non-number cache fields', () => {
+    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.usage.cache_creation_input_tokens', undefined))).toBe(false);
+    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.usage.cache_read_input_tokens', undefined))).toBe(false);
+  });
+
+  test('rejects entries with empty or missing message.id', () => {
+    expect(isTokenBearingAssistant(makeAssistantEntry({ id: '' }))).toBe(false);
+    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.id', undefined))).toBe(false);
+  });
+
+  test('accepts entries with output_tokens = 0', () => {
+    expect(isTokenBearingAssistant(makeAssistantEntry({ output_tokens: 0 }))).toBe(true);
+  });
+
+  test('accepts entries with cache fields = 0', () => {
+    expect(isTokenBearingAssistant(makeAssistantEntry({
+      cache_read_input_tokens: 0,
+      cache_creation_input_tokens: 0,
+    }))).toBe(true);
+  });
+});
+
+describe('toTimestamp', () => {
+  test('parses valid ISO 8601 string', () => {
+    expect(toTimestamp('2026-02-15T14:19:00.000Z', 0)).toBe(Date.parse('2026-02-15T14:19:00.000Z'));
+  });
+
+  test('returns fallback for undefined', () => {
+    expect(toTimestamp(undefined, 999)).toBe(999);
+  });
+
+  test('returns fallback for empty string', () => {
+    expect(toTimestamp('', 999)).toBe(999);
+  });
+
+  test('returns fallback for invalid date string', () => {
+    expect(toTimestamp('not-a-date', 42)).toBe(42);
+  });
+
+  test('handles date-only strings', () => {
+    const ts = toTimestamp('2026-02-15', 0);
+    expect(Number.isFinite(ts)).toBe(true);
+    expect(ts).toBeGreaterThan(0);
+  });
+});
+
+describe('normalizeEntry', () => {
+  const FALLBACK = 1_700_000_000_000;
+
+  test('maps input to input_tokens only (not summed with cache)', () => {
+    const record = normalizeEntry(makeAssistantEntry({
+      input_tokens: 3,
+      output_tokens: 954,
+      cache_read_input_tokens: 17890,
+      cache_creation_input_tokens: 1297,
+    }), createEntryContext(FALLBACK));
+    expect(record!.tokens).toEqual({ input: 3, output: 954, cacheRead: 17890, cacheWrite: 1297 });
+  });
+
+  test('omits cache fields when they are 0', () => {
+    const record = normalizeEntry(makeAssistantEntry({
+      cache_read_input_tokens: 0,
+      cache_creation_input_tokens: 0,
+    }), createEntryContext(FALLBACK));
+    expect(record!.tokens.cacheRead).toBeUndefined();
+    expect(record!.tokens.cacheWrite).toBeUndefined();
+  });
+
+  test('carries message id, model, cost and per-message metadata', () => {
+    const record = normalizeEntry(makeAssistantEntry({ id: 'msg_x', model: 'claude-opus-4-6' }), createEntryContext(FALLBACK));
+    expect(record!.messageId).toBe('msg_x');
+    expect(record!.modelId).toBe('claude-opus-4-6');
+    expect(record!.cost).toBeGreaterThan(0);
+    expect(record!.metadata).toMatchObject({
+      costStatus: 'estimated',
+      isSidechain: false,
+      gitBranch: 'main',
+      claudeCodeVersion: '1.0.0',
+    });
+  });
+
+  test('uses the context fallback timestamp when the entry has none', () => {
+    const record = normalizeEntry(breakType(makeAssistantEntry(), 'timestamp', undefined), createEntryContext(FALLBACK));
+    expect(record!.timestamp).toBe(FALLBACK);
+  });
+
+  test('returns undefined for entries that carry no usage', () => {
+    expect(normalizeEntry({ type: 'user', message: { content: 'hi' } }, createEntryContext(FALLBACK))).toBeUndefined();
+    expect(normalizeEntry(makeAssistantEntry({ input_tokens: 0 }), createEntryContext(FALLBACK))).toBeUndefined();
+  });
+
+  test('tracks sidechain ancestry through entries without usage', () => {
+    const context = createEntryContext(FALLBACK);
+    normalizeEntry({ type: 'user', uuid: 'task-1', parentUuid: null, isSidechain: true }, context);
+    const record = normalizeEntry(makeAssistantEntry({ uuid: 'a-1', parentUuid: 'task-1', isSidechain: true }), context);
+    expect(record!.metadata.sidechainRootUuid).toBe('task-1');
+  });
+});
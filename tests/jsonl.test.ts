@@ -0,0 +1,141 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  JSONL_READ_CHUNK_BYTES,
+  createJsonlDecoder,
+  decodeJsonlChunk,
+  flushJsonlDecoder,
+  jsonlDecoderRemainder,
+  readJsonlStream,
+} from '../src/jsonl.ts';
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('decodeJsonlChunk', () => {
+  test('parses complete lines and keeps the partial tail pending', () => {
+    const decoder = createJsonlDecoder();
+    expect(decodeJsonlChunk(decoder, Buffer.from('{"a":1}\n{"b":'))).toEqual([{ a: 1 }]);
+    expect(jsonlDecoderRemainder(decoder).toString()).toBe('{"b":');
+    expect(decodeJsonlChunk(decoder, Buffer.from('2}\n'))).toEqual([{ b: 2 }]);
+    expect(jsonlDecoderRemainder(decoder).length).toBe(0);
+  });
+
+  test('handles CRLF line endings', () => {
+    const decoder = createJsonlDecoder();
+    expect(decodeJsonlChunk(decoder, Buffer.from('{"a":1}\r\n{"b":2}\r\n'))).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  test('reassembles a line split across many chunks', () => {
+    const decoder = createJsonlDecoder();
+    const bytes = Buffer.from('{"text":"hello world"}\n');
+    const rows: unknown[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+      rows.push(...decodeJsonlChunk(decoder, bytes.subarray(i, i + 1)));
+    }
+    expect(rows).toEqual([{ text: 'hello world' }]);
+  });
+
+  test('reassembles multi-byte characters split across chunks', () => {
+    const decoder = createJsonlDecoder();
+    const bytes = Buffer.from('{"text":"héllo ✓"}\n');
+    const splitAt = bytes.indexOf(0xc3) + 1;
+    decodeJsonlChunk(decoder, bytes.subarray(0, splitAt));
+    expect(decodeJsonlChunk(decoder, bytes.subarray(splitAt))).toEqual([{ text: 'héllo ✓' }]);
+  });
+
+  test('counts malformed lines instead of dropping them silently', () => {
+    const decoder = createJsonlDecoder();
+    const rows = decodeJsonlChunk(decoder, Buffer.from('{"a":1}\nnot json\n\n{"b":2}\n{broken\n'));
+    expect(rows).toEqual([{ a: 1 }, { b: 2 }]);
+    expect(decoder.lines).toBe(4);
+    expect(decoder.malformedLines).toBe(2);
+  });
+
+  test('seeds the decoder with a remainder from a previous read', () => {
+    const decoder = createJsonlDecoder(Buffer.from('{"a":'));
+    expect(decodeJsonlChunk(decoder, Buffer.from('1}\n'))).toEqual([{ a: 1 }]);
+  });
+});
+
+describe('flushJsonlDecoder', () => {
+  test('emits a complete final line without a trailing newline', () => {
+    const decoder = createJsonlDecoder();
+    decodeJsonlChunk(decoder, Buffer.from('{"a":1}'));
+    expect(flushJsonlDecoder(decoder)).toEqual([{ a: 1 }]);
+    expect(jsonlDecoderRemainder(decoder).length).toBe(0);
+  });
+
+  test('keeps an incomplete final line pending without counting it malformed', () => {
+    const decoder = createJsonlDecoder();
+    decodeJsonlChunk(decoder, Buffer.from('{"a":'));
+    expect(flushJsonlDecoder(decoder)).toEqual([]);
+    expect(jsonlDecoderRemainder(decoder).toString()).toBe('{"a":');
+    expect(decoder.malformedLines).toBe(0);
+  });
+
+  test('counts a pending final line as malformed once its newline arrives', () => {
+    const decoder = createJsonlDecoder();
+    decodeJsonlChunk(decoder, Buffer.from('{"a":1}\n{oops'));
+    expect(flushJsonlDecoder(decoder)).toEqual([]);
+    expect(decoder.malformedLines).toBe(0);
+
+    expect(decodeJsonlChunk(decoder, Buffer.from('}\n{"b":2}\n'))).toEqual([{ b: 2 }]);
+    expect(decoder.malformedLines).toBe(1);
+    expect(jsonlDecoderRemainder(decoder).length).toBe(0);
+  });
+});
+
+describe('readJsonlStream', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-jsonl-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('yields entries from a file larger than one read chunk', async () => {
+    const filePath = path.join(tmpDir, 'large.jsonl');
+    const padding = 'x'.repeat(1000);
+    const count = Math.ceil((JSONL_READ_CHUNK_BYTES * 3) / padding.length);
+    const lines = Array.from({ length: count }, (_, i) => JSON.stringify({ i, padding }));
+    await fs.writeFile(filePath, `${lines.join('\n')}\n`);
+
+    const rows = await collect(readJsonlStream<{ i: number }>(filePath));
+    expect(rows).toHaveLength(count);
+    expect(rows[count - 1]!.i).toBe(count - 1);
+  });
+
+  test('reads only the requested byte range', async () => {
+    const filePath = path.join(tmpDir, 'range.jsonl');
+    const first = '{"a":1}\n';
+    await fs.writeFile(filePath, `${first}{"b":2}\n{"c":3}\n`);
+
+    const decoder = createJsonlDecoder();
+    const rows = await collect(readJsonlStream(filePath, decoder, first.length, first.length + 8));
+    expect(rows).toEqual([{ b: 2 }]);
+  });
+
+  test('reports malformed lines through the decoder', async () => {
+    const filePath = path.join(tmpDir, 'malformed.jsonl');
+    await fs.writeFile(filePath, '{"a":1}\r\n{oops\r\n{"b":2}');
+
+    const decoder = createJsonlDecoder();
+    expect(await collect(readJsonlStream(filePath, decoder))).toEqual([{ a: 1 }, { b: 2 }]);
+    expect(decoder.malformedLines).toBe(1);
+  });
+
+  test('yields nothing for a missing file', async () => {
+    expect(await collect(readJsonlStream(path.join(tmpDir, 'missing.jsonl')))).toEqual([]);
+  });
+});
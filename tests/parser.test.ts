@@ -1,11 +1,17 @@
-import { describe, test, expect } from 'bun:test';
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { AgentFetchContext } from '@tokentop/plugin-sdk';
+import { getSessionFilePaths, sessionAggregateCache, sessionCache, sessionFilesById, sessionMetadataIndex } from '../src/cache.ts';
 import {
-  isTokenBearingAssistant,
-  toTimestamp,
-  extractSlug,
+  parseSessionFileIncremental,
   parseSessionFileRows,
+  parseSessionsFromProjects,
 } from '../src/parser.ts';
+import { configureClaudeCodeHomes } from '../src/paths.ts';
 import type { ClaudeCodeAssistantEntry } from '../src/types.ts';
+import { stopSessionWatcher } from '../src/watcher.ts';
 
 function makeAssistantEntry(overrides?: {
   id?: string;
@@ -14,29 +20,36 @@ function makeAssistantEntry(overrides?: {
   output_tokens?: number;
   cache_read_input_tokens?: number;
   cache_creation_input_tokens?: number;
+  cache_creation?: { ephemeral_5m_input_tokens: number; ephemeral_1h_input_tokens: number };
   timestamp?: string;
   cwd?: string;
   slug?: string | null;
+  uuid?: string;
+  parentUuid?: string | null;
+  isSidechain?: boolean;
+  gitBranch?: string;
+  version?: string;
+  content?: ClaudeCodeAssistantEntry['message']['content'];
 }): ClaudeCodeAssistantEntry {
   return {
     type: 'assistant',
-    uuid: 'uuid-1',
-    parentUuid: null,
+    uuid: overrides?.uuid ?? 'uuid-1',
+    parentUuid: overrides?.parentUuid ?? null,
     sessionId: 'ses-1',
     timestamp: overrides?.timestamp ?? '2026-02-15T14:19:00.000Z',
     cwd: overrides?.cwd ?? '/Users/test/project',
     slug: overrides?.slug ?? 'my-project',
-    isSidechain: false,
+    isSidechain: overrides?.isSidechain ?? false,
     userType: 'external',
-    version: '1.0.0',
-    gitBranch: 'main',
+    version: overrides?.version ?? '1.0.0',
+    gitBranch: overrides?.gitBranch ?? 'main',
     requestId: 'req-1',
     message: {
       model: overrides?.model ?? 'claude-opus-4-6',
       id: overrides?.id ?? 'msg_001',
       type: 'message',
       role: 'assistant',
-      content: [{ type: 'text', text: 'Hello' }],
+      content: overrides?.content ?? [{ type: 'text', text: 'Hello' }],
       stop_reason: 'end_turn',
       stop_sequence: null,
       usage: {
@@ -44,6 +57,7 @@ function makeAssistantEntry(overrides?: {
         output_tokens: overrides?.output_tokens ?? 954,
         cache_creation_input_tokens: overrides?.cache_creation_input_tokens ?? 1297,
         cache_read_input_tokens: overrides?.cache_read_input_tokens ?? 17890,
+        ...(overrides?.cache_creation ? { cache_creation: overrides.cache_creation } : {}),
       },
     },
   };
@@ -60,119 +74,6 @@ function breakType(entry: ClaudeCodeAssistantEntry, path: string, value: unknown
   return clone;
 }
 
-describe('isTokenBearingAssistant', () => {
-  test('accepts a valid assistant entry', () => {
-    expect(isTokenBearingAssistant(makeAssistantEntry())).toBe(true);
-  });
-
-  test('rejects null and undefined', () => {
-    expect(isTokenBearingAssistant(null)).toBe(false);
-    expect(isTokenBearingAssistant(undefined)).toBe(false);
-  });
-
-  test('rejects non-object types', () => {
-    expect(isTokenBearingAssistant(42)).toBe(false);
-    expect(isTokenBearingAssistant('assistant')).toBe(false);
-    expect(isTokenBearingAssistant(true)).toBe(false);
-  });
-
-  test('rejects entries with wrong type field', () => {
-    expect(isTokenBearingAssistant({ type: 'user', message: {} })).toBe(false);
-    expect(isTokenBearingAssistant({ type: 'system', message: {} })).toBe(false);
-  });
-
-  test('rejects entries without message object', () => {
-    expect(isTokenBearingAssistant({ type: 'assistant' })).toBe(false);
-    expect(isTokenBearingAssistant({ type: 'assistant', message: 'not an object' })).toBe(false);
-  });
-
-  test('rejects entries with empty or missing model', () => {
-    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.model', ''))).toBe(false);
-    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.model', undefined))).toBe(false);
-  });
-
-  test('rejects entries with missing or invalid usage', () => {
-    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.usage', undefined))).toBe(false);
-    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.usage', 'string'))).toBe(false);
-  });
-
-  test('rejects entries with input_tokens <= 0', () => {
-    expect(isTokenBearingAssistant(makeAssistantEntry({ input_tokens: 0 }))).toBe(false);
-    expect(isTokenBearingAssistant(makeAssistantEntry({ input_tokens: -1 }))).toBe(false);
-  });
-
-  test('rejects entries with non-number output_tokens', () => {
-    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.usage.output_tokens', 'bad'))).toBe(false);
-  });
-
-  test('rejects entries with non-number cache fields', () => {
-    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.usage.cache_creation_input_tokens', undefined))).toBe(false);
-    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.usage.cache_read_input_tokens', undefined))).toBe(false);
-  });
-
-  test('rejects entries with empty or missing message.id', () => {
-    expect(isTokenBearingAssistant(makeAssistantEntry({ id: '' }))).toBe(false);
-    expect(isTokenBearingAssistant(breakType(makeAssistantEntry(), 'message.id', undefined))).toBe(false);
-  });
-
-  test('accepts entries with output_tokens = 0', () => {
-    expect(isTokenBearingAssistant(makeAssistantEntry({ output_tokens: 0 }))).toBe(true);
-  });
-
-  test('accepts entries with cache fields = 0', () => {
-    expect(isTokenBearingAssistant(makeAssistantEntry({
-      cache_read_input_tokens: 0,
-      cache_creation_input_tokens: 0,
-    }))).toBe(true);
-  });
-});
-
-describe('toTimestamp', () => {
-  test('parses valid ISO 8601 string', () => {
-    expect(toTimestamp('2026-02-15T14:19:00.000Z', 0)).toBe(Date.parse('2026-02-15T14:19:00.000Z'));
-  });
-
-  test('returns fallback for undefined', () => {
-    expect(toTimestamp(undefined, 999)).toBe(999);
-  });
-
-  test('returns fallback for empty string', () => {
-    expect(toTimestamp('', 999)).toBe(999);
-  });
-
-  test('returns fallback for invalid date string', () => {
-    expect(toTimestamp('not-a-date', 42)).toBe(42);
-  });
-
-  test('handles date-only strings', () => {
-    const ts = toTimestamp('2026-02-15', 0);
-    expect(Number.isFinite(ts)).toBe(true);
-    expect(ts).toBeGreaterThan(0);
-  });
-});
-
-describe('extractSlug', () => {
-  test('extracts slug from last entry with slug', () => {
-    expect(extractSlug([{ slug: 'first-slug' }, { slug: 'last-slug' }])).toBe('last-slug');
-  });
-
-  test('returns undefined for empty array', () => {
-    expect(extractSlug([])).toBeUndefined();
-  });
-
-  test('returns undefined when no entries have slug', () => {
-    expect(extractSlug([{}, { type: 'user' }])).toBeUndefined();
-  });
-
-  test('skips null slugs', () => {
-    expect(extractSlug([{ slug: 'valid-slug' }, { slug: null }])).toBe('valid-slug');
-  });
-
-  test('skips empty string slugs', () => {
-    expect(extractSlug([{ slug: 'valid-slug' }, { slug: '' }])).toBe('valid-slug');
-  });
-});
-
 describe('parseSessionFileRows', () => {
   const SESSION_ID = 'test-session-001';
   const MTIME = Date.now();
@@ -273,6 +174,16 @@ describe('parseSessionFileRows', () => {
     expect(rows[0]!.projectPath).toBe('/Users/test/my-project');
   });
 
+  test('records every cwd the session visited', () => {
+    const rows = parseSessionFileRows(SESSION_ID, MTIME, [
+      makeAssistantEntry({ id: 'msg_1', cwd: '/Users/test/my-project' }),
+      makeAssistantEntry({ id: 'msg_2', cwd: '/Users/test/my-project/src' }),
+      makeAssistantEntry({ id: 'msg_3', cwd: '/Users/test/my-project' }),
+    ]);
+    expect(rows[0]!.projectPath).toBe('/Users/test/my-project');
+    expect(rows[0]!.metadata?.sessionCwds).toEqual(['/Users/test/my-project', '/Users/test/my-project/src']);
+  });
+
   test('sets sessionId and sessionUpdatedAt', () => {
     const rows = parseSessionFileRows(SESSION_ID, MTIME, [makeAssistantEntry()]);
     expect(rows[0]!.sessionId).toBe(SESSION_ID);
@@ -291,6 +202,151 @@ describe('parseSessionFileRows', () => {
     expect(rows[0]!.timestamp).toBe(MTIME);
   });
 
+  test('attaches estimated cost for priced models', () => {
+    const rows = parseSessionFileRows(SESSION_ID, MTIME, [
+      makeAssistantEntry({ model: 'claude-opus-4-6', input_tokens: 3, output_tokens: 954, cache_read_input_tokens: 17890, cache_creation_input_tokens: 1297 }),
+    ]);
+    expect(rows[0]!.cost).toBeCloseTo((3 * 5 + 954 * 25 + 17890 * 0.5 + 1297 * 6.25) / 1_000_000, 10);
+    expect(rows[0]!.metadata?.costStatus).toBe('estimated');
+  });
+
+  test('marks unknown models as unpriced without a cost', () => {
+    const rows = parseSessionFileRows(SESSION_ID, MTIME, [makeAssistantEntry({ model: 'claude-mystery-1' })]);
+    expect(rows[0]!.cost).toBeUndefined();
+    expect(rows[0]!.metadata?.costStatus).toBe('unpriced');
+  });
+
+  test('splits cache writes into 5m and 1h buckets when reported', () => {
+    const rows = parseSessionFileRows(SESSION_ID, MTIME, [
+      makeAssistantEntry({
+        cache_creation_input_tokens: 1500,
+        cache_creation: { ephemeral_5m_input_tokens: 500, ephemeral_1h_input_tokens: 1000 },
+      }),
+    ]);
+    expect(rows[0]!.tokens.cacheWrite).toBe(1500);
+    expect(rows[0]!.metadata?.cacheWrite5m).toBe(500);
+    expect(rows[0]!.metadata?.cacheWrite1h).toBe(1000);
+    expect(rows[0]!.metadata?.cacheWriteTtlInferred).toBe(false);
+  });
+
+  test('attributes cache writes to 5m bucket when breakdown is absent', () => {
+    const rows = parseSessionFileRows(SESSION_ID, MTIME, [makeAssistantEntry({ cache_creation_input_tokens: 1297 })]);
+    expect(rows[0]!.metadata?.cacheWrite5m).toBe(1297);
+    expect(rows[0]!.metadata?.cacheWrite1h).toBe(0);
+    expect(rows[0]!.metadata?.cacheWriteTtlInferred).toBe(true);
+  });
+
+  test('omits cache write breakdown when there are no cache writes', () => {
+    const rows = parseSessionFileRows(SESSION_ID, MTIME, [makeAssistantEntry({ cache_creation_input_tokens: 0 })]);
+    expect(rows[0]!.metadata?.cacheWrite5m).toBeUndefined();
+    expect(rows[0]!.metadata?.cacheWrite1h).toBeUndefined();
+  });
+
+  test('prices 1h cache writes at the long-TTL rate', () => {
+    const [fiveMinute] = parseSessionFileRows(SESSION_ID, MTIME, [
+      makeAssistantEntry({
+        model: 'claude-opus-4-6',
+        input_tokens: 1,
+        output_tokens: 0,
+        cache_read_input_tokens: 0,
+        cache_creation_input_tokens: 1_000_000,
+        cache_creation: { ephemeral_5m_input_tokens: 1_000_000, ephemeral_1h_input_tokens: 0 },
+      }),
+    ]);
+    const [oneHour] = parseSessionFileRows(SESSION_ID, MTIME, [
+      makeAssistantEntry({
+        model: 'claude-opus-4-6',
+        input_tokens: 1,
+        output_tokens: 0,
+        cache_read_input_tokens: 0,
+        cache_creation_input_tokens: 1_000_000,
+        cache_creation: { ephemeral_5m_input_tokens: 0, ephemeral_1h_input_tokens: 1_000_000 },
+      }),
+    ]);
+    expect(oneHour!.cost! - fiveMinute!.cost!).toBeCloseTo(10 - 6.25, 10);
+  });
+
+  test('mixed-TTL session keeps per-message buckets and totals consistent', () => {
+    const rows = parseSessionFileRows(SESSION_ID, MTIME, [
+      makeAssistantEntry({
+        id: 'msg_a',
+        cache_creation_input_tokens: 2000,
+        cache_creation: { ephemeral_5m_input_tokens: 2000, ephemeral_1h_input_tokens: 0 },
+      }),
+      makeAssistantEntry({
+        id: 'msg_b',
+        cache_creation_input_tokens: 3000,
+        cache_creation: { ephemeral_5m_input_tokens: 1000, ephemeral_1h_input_tokens: 2000 },
+      }),
+      makeAssistantEntry({ id: 'msg_c', cache_creation_input_tokens: 400 }),
+    ]);
+
+    const total5m = rows.reduce((sum, r) => sum + ((r.metadata?.cacheWrite5m as number | undefined) ?? 0), 0);
+    const total1h = rows.reduce((sum, r) => sum + ((r.metadata?.cacheWrite1h as number | undefined) ?? 0), 0);
+    const totalWrite = rows.reduce((sum, r) => sum + (r.tokens.cacheWrite ?? 0), 0);
+
+    expect(total5m).toBe(3400);
+    expect(total1h).toBe(2000);
+    expect(total5m + total1h).toBe(totalWrite);
+  });
+
+  test('tags main-thread rows as not sidechain', () => {
+    const rows = parseSessionFileRows(SESSION_ID, MTIME, [makeAssistantEntry()]);
+    expect(rows[0]!.metadata?.isSidechain).toBe(false);
+    expect(rows[0]!.metadata?.sidechainRootUuid).toBeUndefined();
+  });
+
+  test('attributes subagent rows to the root of their sidechain', () => {
+    const rows = parseSessionFileRows(SESSION_ID, MTIME, [
+      makeAssistantEntry({ id: 'msg_main', uuid: 'main-1' }),
+      { type: 'user', uuid: 'task-a', parentUuid: 'main-1', isSidechain: true, message: { role: 'user', content: 'Explore' } },
+      makeAssistantEntry({ id: 'msg_a1', uuid: 'a-1', parentUuid: 'task-a', isSidechain: true }),
+      { type: 'user', uuid: 'a-2', parentUuid: 'a-1', isSidechain: true, message: { role: 'user', content: [] } },
+      makeAssistantEntry({ id: 'msg_a2', uuid: 'a-3', parentUuid: 'a-2', isSidechain: true }),
+      { type: 'user', uuid: 'task-b', parentUuid: 'main-1', isSidechain: true, message: { role: 'user', content: 'Review' } },
+      makeAssistantEntry({ id: 'msg_b1', uuid: 'b-1', parentUuid: 'task-b', isSidechain: true }),
+    ]);
+
+    expect(rows.filter((row) => row.metadata?.isSidechain === true)).toHaveLength(3);
+    expect(rows.filter((row) => row.metadata?.sidechainRootUuid === 'task-a')).toHaveLength(2);
+    expect(rows.filter((row) => row.metadata?.sidechainRootUuid === 'task-b')).toHaveLength(1);
+    expect(rows.find((row) => row.metadata?.isSidechain === false)?.tokens.input).toBe(3);
+  });
+
+  test('sets gitBranch and claudeCodeVersion from each entry', () => {
+    const rows = parseSessionFileRows(SESSION_ID, MTIME, [makeAssistantEntry({ gitBranch: 'feat/pricing', version: '2.0.14' })]);
+    expect(rows[0]!.metadata?.gitBranch).toBe('feat/pricing');
+    expect(rows[0]!.metadata?.claudeCodeVersion).toBe('2.0.14');
+  });
+
+  test('preserves branch switches per message', () => {
+    const rows = parseSessionFileRows(SESSION_ID, MTIME, [
+      makeAssistantEntry({ id: 'msg_1', gitBranch: 'main', version: '2.0.13' }),
+      makeAssistantEntry({ id: 'msg_2', gitBranch: 'feat/a', version: '2.0.14' }),
+      makeAssistantEntry({ id: 'msg_3', gitBranch: 'main', version: '2.0.14' }),
+    ]);
+    expect(rows.map((row) => row.metadata?.gitBranch)).toEqual(['main', 'feat/a', 'main']);
+    expect(rows.map((row) => row.metadata?.claudeCodeVersion)).toEqual(['2.0.13', '2.0.14', '2.0.14']);
+  });
+
+  test('summarizes every branch the session touched, including user entries', () => {
+    const rows = parseSessionFileRows(SESSION_ID, MTIME, [
+      { type: 'user', gitBranch: 'chore/setup', message: { role: 'user', content: 'hi' } },
+      makeAssistantEntry({ id: 'msg_1', gitBranch: 'main' }),
+      makeAssistantEntry({ id: 'msg_2', gitBranch: 'feat/a' }),
+      makeAssistantEntry({ id: 'msg_3', gitBranch: 'main' }),
+    ]);
+    for (const row of rows) {
+      expect(row.metadata?.sessionGitBranches).toEqual(['chore/setup', 'main', 'feat/a']);
+    }
+  });
+
+  test('omits branch metadata when gitBranch is empty', () => {
+    const rows = parseSessionFileRows(SESSION_ID, MTIME, [makeAssistantEntry({ gitBranch: '' })]);
+    expect(rows[0]!.metadata?.gitBranch).toBeUndefined();
+    expect(rows[0]!.metadata?.sessionGitBranches).toBeUndefined();
+  });
+
   test('returns empty array for empty entries', () => {
     expect(parseSessionFileRows(SESSION_ID, MTIME, [])).toEqual([]);
   });
@@ -333,4 +389,418 @@ describe('parseSessionFileRows', () => {
     expect(totalCacheRead).toBe(37354);
     expect(totalCacheWrite).toBe(2421);
   });
+
+  test('attributes tool calls to the requesting turn and their results to the next turn', () => {
+    const rows = parseSessionFileRows('ses-1', MTIME, [
+      makeAssistantEntry({ id: 'msg_a', content: [{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: {} }] }),
+      makeAssistantEntry({ id: 'msg_a', content: [{ type: 'tool_use', id: 'toolu_2', name: 'Bash', input: {} }] }),
+      makeAssistantEntry({ id: 'msg_a', content: [{ type: 'tool_use', id: 'toolu_3', name: 'Read', input: {} }] }),
+      {
+        type: 'user',
+        message: {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: 'x'.repeat(1200) },
+            { type: 'tool_result', tool_use_id: 'toolu_2', content: [{ type: 'text', text: 'ok' }] },
+            { type: 'tool_result', tool_use_id: 'toolu_3', content: 'y'.repeat(300) },
+          ],
+        },
+      },
+      makeAssistantEntry({ id: 'msg_b' }),
+    ]);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]!.metadata?.toolUses).toEqual({ Read: 2, Bash: 1 });
+    expect(rows[0]!.metadata?.toolResults).toBeUndefined();
+    expect(rows[1]!.metadata?.toolUses).toBeUndefined();
+    expect(rows[1]!.metadata?.toolResults).toEqual({
+      Read: { count: 2, chars: 1500 },
+      Bash: { count: 1, chars: 2 },
+    });
+  });
+});
+
+describe('parseSessionFileIncremental', () => {
+  const SESSION_ID = 'tail-session';
+  const MTIME = 1_700_000_000_000;
+  let tmpDir: string;
+  let filePath: string;
+
+  const line = (entry: unknown): string => `${JSON.stringify(entry)}\n`;
+
+  async function parseNext(previous?: Awaited<ReturnType<typeof parseSessionFileIncremental>>) {
+    return parseSessionFileIncremental(SESSION_ID, filePath, MTIME, previous && {
+      updatedAt: MTIME,
+      usageRows: previous.usageRows,
+      lastAccessed: MTIME,
+      parseState: previous.parseState,
+      cursor: previous.cursor,
+    });
+  }
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-tail-'));
+    filePath = path.join(tmpDir, `${SESSION_ID}.jsonl`);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('first parse reads the whole file and matches parseSessionFileRows', async () => {
+    const entries = [makeAssistantEntry({ id: 'msg_1' }), makeAssistantEntry({ id: 'msg_2', output_tokens: 5 })];
+    await fs.writeFile(filePath, entries.map(line).join(''));
+
+    const parsed = await parseNext();
+    expect(parsed.incremental).toBe(false);
+    expect(parsed.usageRows).toEqual(parseSessionFileRows(SESSION_ID, MTIME, entries));
+  });
+
+  test('parses only the appended tail and matches a full re-read', async () => {
+    const first = [makeAssistantEntry({ id: 'msg_1' })];
+    const appended = [
+      { type: 'user', uuid: 'u2', message: { role: 'user', content: 'more' } },
+      makeAssistantEntry({ id: 'msg_2', output_tokens: 7, slug: 'renamed-session' }),
+    ];
+    await fs.writeFile(filePath, first.map(line).join(''));
+    const initial = await parseNext();
+
+    await fs.appendFile(filePath, appended.map(line).join(''));
+    const next = await parseNext(initial);
+
+    expect(next.incremental).toBe(true);
+    expect(next.usageRows).toEqual(parseSessionFileRows(SESSION_ID, MTIME, [...first, ...appended]));
+    expect(next.usageRows.every((row) => row.sessionName === 'renamed-session')).toBe(true);
+  });
+
+  test('carries a partial trailing line over to the next parse', async () => {
+    const complete = line(makeAssistantEntry({ id: 'msg_1' }));
+    const split = line(makeAssistantEntry({ id: 'msg_2', output_tokens: 42 }));
+    await fs.writeFile(filePath, complete + split.slice(0, 40));
+
+    const initial = await parseNext();
+    expect(initial.usageRows).toHaveLength(1);
+    expect(initial.cursor?.remainder.length).toBe(40);
+
+    await fs.appendFile(filePath, split.slice(40));
+    const next = await parseNext(initial);
+    expect(next.incremental).toBe(true);
+    expect(next.usageRows).toHaveLength(2);
+    expect(next.usageRows[1]!.tokens.output).toBe(42);
+    expect(next.cursor?.remainder.length).toBe(0);
+  });
+
+  test('consumes a final complete line that has no trailing newline yet', async () => {
+    await fs.writeFile(filePath, JSON.stringify(makeAssistantEntry({ id: 'msg_1' })));
+    const parsed = await parseNext();
+    expect(parsed.usageRows).toHaveLength(1);
+    expect(parsed.cursor?.remainder.length).toBe(0);
+  });
+
+  test('updates a streamed message whose final chunk lands in the tail', async () => {
+    await fs.writeFile(filePath, line(makeAssistantEntry({ id: 'msg_1', output_tokens: 9 })));
+    const initial = await parseNext();
+
+    await fs.appendFile(filePath, line(makeAssistantEntry({ id: 'msg_1', output_tokens: 954 })));
+    const next = await parseNext(initial);
+    expect(next.usageRows).toHaveLength(1);
+    expect(next.usageRows[0]!.tokens.output).toBe(954);
+  });
+
+  test('falls back to a full re-read when the file is truncated', async () => {
+    await fs.writeFile(filePath, [makeAssistantEntry({ id: 'msg_1' }), makeAssistantEntry({ id: 'msg_2' })].map(line).join(''));
+    const initial = await parseNext();
+
+    await fs.writeFile(filePath, line(makeAssistantEntry({ id: 'msg_3' })));
+    const next = await parseNext(initial);
+    expect(next.incremental).toBe(false);
+    expect(next.usageRows).toHaveLength(1);
+  });
+
+  test('falls back to a full re-read after a compaction-style rewrite in place', async () => {
+    const original = [makeAssistantEntry({ id: 'msg_1', output_tokens: 100 }), makeAssistantEntry({ id: 'msg_2', output_tokens: 200 })];
+    await fs.writeFile(filePath, original.map(line).join(''));
+    const initial = await parseNext();
+
+    const compacted = [
+      { type: 'summary', summary: 'Conversation compacted', leafUuid: 'uuid-1' },
+      makeAssistantEntry({ id: 'msg_3', output_tokens: 300, cwd: '/Users/test/compacted-project-with-a-longer-path' }),
+      makeAssistantEntry({ id: 'msg_4', output_tokens: 400 }),
+    ];
+    const handle = await fs.open(filePath, 'r+');
+    await handle.truncate(0);
+    await handle.write(compacted.map(line).join(''), 0);
+    await handle.close();
+
+    const next = await parseNext(initial);
+    expect(next.incremental).toBe(false);
+    expect(next.usageRows.map((row) => row.tokens.output)).toEqual([300, 400]);
+  });
+
+  test('falls back to a full re-read when the file is replaced by rename', async () => {
+    await fs.writeFile(filePath, line(makeAssistantEntry({ id: 'msg_1' })));
+    const initial = await parseNext();
+
+    const replacement = path.join(tmpDir, 'replacement.jsonl');
+    await fs.writeFile(replacement, [makeAssistantEntry({ id: 'msg_1' }), makeAssistantEntry({ id: 'msg_9' })].map(line).join(''));
+    await fs.rename(replacement, filePath);
+
+    const next = await parseNext(initial);
+    expect(next.incremental).toBe(false);
+    expect(next.usageRows).toHaveLength(2);
+  });
+
+  test('returns no rows for a missing file', async () => {
+    const parsed = await parseNext();
+    expect(parsed.usageRows).toEqual([]);
+    expect(parsed.incremental).toBe(false);
+  });
+});
+
+describe('parseSessionsFromProjects paging', () => {
+  const ctx = {
+    config: {},
+    logger: { debug() {}, info() {}, warn() {}, error() {} },
+  } as unknown as AgentFetchContext;
+
+  let tmpHome: string;
+
+  beforeEach(async () => {
+    tmpHome = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-paging-'));
+    const projectDir = path.join(tmpHome, 'projects', '-Users-test-project');
+    await fs.mkdir(projectDir, { recursive: true });
+
+    for (let day = 1; day <= 5; day++) {
+      const filePath = path.join(projectDir, `ses-${day}.jsonl`);
+      const entries = [makeAssistantEntry({ id: `msg_${day}_a` }), makeAssistantEntry({ id: `msg_${day}_b` })];
+      await fs.writeFile(filePath, entries.map((entry) => JSON.stringify(entry)).join('\n'));
+      const mtime = Date.UTC(2026, 0, day) / 1000;
+      await fs.utimes(filePath, mtime, mtime);
+    }
+
+    configureClaudeCodeHomes({ configDirs: tmpHome });
+    sessionAggregateCache.clear();
+    sessionMetadataIndex.clear();
+    sessionCache.lastCheck = 0;
+    sessionCache.lastResult = [];
+  });
+
+  afterEach(async () => {
+    stopSessionWatcher();
+    configureClaudeCodeHomes({});
+    sessionAggregateCache.clear();
+    sessionMetadataIndex.clear();
+    sessionCache.lastCheck = 0;
+    sessionCache.lastResult = [];
+    await fs.rm(tmpHome, { recursive: true, force: true });
+  });
+
+  test('limit counts sessions and returns all of their rows', async () => {
+    const rows = await parseSessionsFromProjects({ limit: 2 }, ctx);
+    expect(rows.map((row) => row.sessionId)).toEqual(['ses-5', 'ses-5', 'ses-4', 'ses-4']);
+  });
+
+  test('a session with files in several project directories takes one slot', async () => {
+    const otherDir = path.join(tmpHome, 'projects', '-Users-test-other');
+    await fs.mkdir(otherDir, { recursive: true });
+    const otherPath = path.join(otherDir, 'ses-4.jsonl');
+    await fs.writeFile(otherPath, JSON.stringify(makeAssistantEntry({ id: 'msg_4_other' })));
+    const mtime = Date.UTC(2025, 11, 1) / 1000;
+    await fs.utimes(otherPath, mtime, mtime);
+
+    const first = await parseSessionsFromProjects({ limit: 2 }, ctx);
+    expect(first.map((row) => row.metadata?.messageId).sort()).toEqual(['msg_4_a', 'msg_4_b', 'msg_4_other', 'msg_5_a', 'msg_5_b']);
+
+    const second = await parseSessionsFromProjects({ limit: 2, offset: 2 }, ctx);
+    expect(second.map((row) => row.sessionId)).toEqual(['ses-3', 'ses-3', 'ses-2', 'ses-2']);
+  });
+
+  test('sessions outside the page are never parsed', async () => {
+    await parseSessionsFromProjects({ limit: 2 }, ctx);
+    expect(Array.from(sessionAggregateCache.keys()).map((key) => path.basename(key)).sort()).toEqual(['ses-4.jsonl', 'ses-5.jsonl']);
+  });
+
+  test('keeps the incremental parse state only for recently modified transcripts', async () => {
+    const recentPath = path.join(tmpHome, 'projects', '-Users-test-project', 'ses-5.jsonl');
+    const now = new Date();
+    await fs.utimes(recentPath, now, now);
+
+    await parseSessionsFromProjects({ limit: 2 }, ctx);
+
+    const kept = Array.from(sessionAggregateCache)
+      .filter(([, aggregate]) => aggregate.parseState && aggregate.cursor)
+      .map(([filePath]) => path.basename(filePath));
+    expect(kept).toEqual(['ses-5.jsonl']);
+    expect(sessionAggregateCache.size).toBe(2);
+  });
+
+  test('a sessionId filter keeps the other sessions cached', async () => {
+    await parseSessionsFromProjects({ limit: 10 }, ctx);
+    const cached = new Map(sessionAggregateCache);
+    expect(cached.size).toBe(5);
+
+    const rows = await parseSessionsFromProjects({ sessionId: 'ses-3' }, ctx);
+    expect(new Set(rows.map((row) => row.sessionId))).toEqual(new Set(['ses-3']));
+    expect(sessionMetadataIndex.size).toBe(5);
+
+    sessionCache.lastCheck = 0;
+    await parseSessionsFromProjects({ limit: 10 }, ctx);
+    expect(Array.from(sessionAggregateCache).every(([filePath, aggregate]) => cached.get(filePath) === aggregate)).toBe(true);
+    expect(sessionAggregateCache.size).toBe(5);
+  });
+
+  test('offset pages back through older sessions', async () => {
+    const firstPage = await parseSessionsFromProjects({ limit: 2 }, ctx);
+    const secondPage = await parseSessionsFromProjects({ limit: 2, offset: 2 }, ctx);
+    const lastPage = await parseSessionsFromProjects({ limit: 2, offset: 4 }, ctx);
+
+    expect(new Set(firstPage.map((row) => row.sessionId))).toEqual(new Set(['ses-5', 'ses-4']));
+    expect(new Set(secondPage.map((row) => row.sessionId))).toEqual(new Set(['ses-3', 'ses-2']));
+    expect(new Set(lastPage.map((row) => row.sessionId))).toEqual(new Set(['ses-1']));
+  });
+
+  test('since is applied before the page is cut', async () => {
+    const rows = await parseSessionsFromProjects({ limit: 10, since: Date.UTC(2026, 0, 4) }, ctx);
+    expect(new Set(rows.map((row) => row.sessionId))).toEqual(new Set(['ses-5', 'ses-4']));
+  });
+});
+
+describe('parseSessionsFromProjects with duplicate session ids', () => {
+  const debugLogs: Array<Record<string, unknown> | undefined> = [];
+  const ctx = {
+    config: {},
+    logger: { debug: (_message: string, data?: Record<string, unknown>) => debugLogs.push(data), info() {}, warn() {}, error() {} },
+  } as unknown as AgentFetchContext;
+  const MTIME_SECONDS = Date.UTC(2026, 1, 1) / 1000;
+
+  let tmpHome: string;
+  let firstPath: string;
+  let secondPath: string;
+
+  async function writeSession(filePath: string, outputTokens: number): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(makeAssistantEntry({ id: `msg_${outputTokens}`, output_tokens: outputTokens })));
+    await fs.utimes(filePath, MTIME_SECONDS, MTIME_SECONDS);
+  }
+
+  function resetCaches(): void {
+    sessionAggregateCache.clear();
+    sessionMetadataIndex.clear();
+    sessionFilesById.clear();
+    sessionCache.lastCheck = 0;
+    sessionCache.lastResult = [];
+  }
+
+  beforeEach(async () => {
+    tmpHome = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-dup-'));
+    firstPath = path.join(tmpHome, 'projects', '-Users-test-alpha', 'ses-dup.jsonl');
+    secondPath = path.join(tmpHome, 'projects', '-Users-test-beta', 'ses-dup.jsonl');
+    await writeSession(firstPath, 111);
+    await writeSession(secondPath, 222);
+
+    configureClaudeCodeHomes({ configDirs: tmpHome });
+    resetCaches();
+    debugLogs.length = 0;
+  });
+
+  afterEach(async () => {
+    stopSessionWatcher();
+    configureClaudeCodeHomes({});
+    resetCaches();
+    await fs.rm(tmpHome, { recursive: true, force: true });
+  });
+
+  test('returns the rows of every file that shares the session id', async () => {
+    const rows = await parseSessionsFromProjects({}, ctx);
+    expect(rows.map((row) => row.tokens.output).sort()).toEqual([111, 222]);
+    expect(getSessionFilePaths('ses-dup').sort()).toEqual([firstPath, secondPath].sort());
+  });
+
+  test('caches each file separately even when mtimes coincide', async () => {
+    await parseSessionsFromProjects({}, ctx);
+    sessionCache.lastCheck = 0;
+
+    const rows = await parseSessionsFromProjects({}, ctx);
+    expect(debugLogs.at(-1)?.aggregateCacheHits).toBe(2);
+    expect(debugLogs.at(-1)?.aggregateCacheMisses).toBe(0);
+    expect(rows.map((row) => row.tokens.output).sort()).toEqual([111, 222]);
+  });
+
+  test('a change to one file does not evict the other', async () => {
+    await parseSessionsFromProjects({}, ctx);
+    await fs.appendFile(secondPath, `\n${JSON.stringify(makeAssistantEntry({ id: 'msg_333', output_tokens: 333 }))}`);
+    const mtime = MTIME_SECONDS + 60;
+    await fs.utimes(secondPath, mtime, mtime);
+    sessionMetadataIndex.delete(secondPath);
+    sessionCache.lastCheck = 0;
+
+    const rows = await parseSessionsFromProjects({}, ctx);
+    expect(debugLogs.at(-1)?.aggregateCacheHits).toBe(1);
+    expect(debugLogs.at(-1)?.aggregateCacheMisses).toBe(1);
+    expect(rows.map((row) => row.tokens.output).sort()).toEqual([111, 222, 333]);
+  });
+
+  test('forgets a deleted copy without touching the remaining one', async () => {
+    await parseSessionsFromProjects({}, ctx);
+    await fs.rm(firstPath);
+    sessionCache.lastCheck = 0;
+
+    const rows = await parseSessionsFromProjects({}, ctx);
+    expect(rows.map((row) => row.tokens.output)).toEqual([222]);
+    expect(getSessionFilePaths('ses-dup')).toEqual([secondPath]);
+    expect(sessionAggregateCache.has(firstPath)).toBe(false);
+  });
+});
+
+describe('parseSessionsFromProjects with resumed sessions', () => {
+  const ctx = {
+    config: {},
+    logger: { debug() {}, info() {}, warn() {}, error() {} },
+  } as unknown as AgentFetchContext;
+
+  let tmpHome: string;
+
+  function resetCaches(): void {
+    sessionAggregateCache.clear();
+    sessionMetadataIndex.clear();
+    sessionFilesById.clear();
+    sessionCache.lastCheck = 0;
+    sessionCache.lastResult = [];
+  }
+
+  beforeEach(async () => {
+    tmpHome = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-resume-'));
+    const projectDir = path.join(tmpHome, 'projects', '-Users-test-project');
+    await fs.mkdir(projectDir, { recursive: true });
+
+    const history = [
+      makeAssistantEntry({ id: 'msg_1', uuid: 'u1', output_tokens: 10, timestamp: '2026-02-01T10:00:00.000Z' }),
+      makeAssistantEntry({ id: 'msg_2', uuid: 'u2', parentUuid: 'u1', output_tokens: 20, timestamp: '2026-02-01T10:01:00.000Z' }),
+    ];
+    const resumed = [
+      ...history,
+      makeAssistantEntry({ id: 'msg_3', uuid: 'u3', parentUuid: 'u2', output_tokens: 30, timestamp: '2026-02-02T09:00:00.000Z' }),
+    ];
+    await fs.writeFile(path.join(projectDir, 'ses-original.jsonl'), history.map((entry) => JSON.stringify(entry)).join('\n'));
+    await fs.writeFile(path.join(projectDir, 'ses-resumed.jsonl'), resumed.map((entry) => JSON.stringify(entry)).join('\n'));
+
+    configureClaudeCodeHomes({ configDirs: tmpHome });
+    resetCaches();
+  });
+
+  afterEach(async () => {
+    stopSessionWatcher();
+    configureClaudeCodeHomes({});
+    resetCaches();
+    await fs.rm(tmpHome, { recursive: true, force: true });
+  });
+
+  test('counts copied history once and links both files to one conversation', async () => {
+    const rows = await parseSessionsFromProjects({}, ctx);
+
+    const bySession = (sessionId: string) => rows.filter((row) => row.sessionId === sessionId).map((row) => row.tokens.output);
+    expect(bySession('ses-original')).toEqual([10, 20]);
+    expect(bySession('ses-resumed')).toEqual([30]);
+    expect(new Set(rows.map((row) => row.metadata?.conversationId))).toEqual(new Set(['ses-original']));
+  });
 });
@@ -0,0 +1,107 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CLAUDE_CODE_HOME,
+  claudeCodeHomeForProjectDir,
+  configureClaudeCodeHomes,
+  getClaudeCodeHomes,
+  getProjectDirs,
+  getProjectsPaths,
+  isWithinPaths,
+  resolveClaudeCodeHomes,
+  resolveFilesystemPaths,
+} from '../src/paths.ts';
+
+afterEach(() => {
+  configureClaudeCodeHomes({});
+});
+
+describe('resolveClaudeCodeHomes', () => {
+  test('defaults to ~/.claude when nothing is configured', () => {
+    expect(resolveClaudeCodeHomes({}, {})).toEqual([CLAUDE_CODE_HOME]);
+  });
+
+  test('uses CLAUDE_CONFIG_DIR from the environment', () => {
+    expect(resolveClaudeCodeHomes({}, { CLAUDE_CONFIG_DIR: '/opt/claude-work' })).toEqual(['/opt/claude-work']);
+  });
+
+  test('splits CLAUDE_CONFIG_DIR on the platform path delimiter', () => {
+    const value = ['/opt/claude-work', '/opt/claude-personal'].join(path.delimiter);
+    expect(resolveClaudeCodeHomes({}, { CLAUDE_CONFIG_DIR: value })).toEqual(['/opt/claude-work', '/opt/claude-personal']);
+  });
+
+  test('plugin config takes precedence over the environment', () => {
+    expect(resolveClaudeCodeHomes(
+      { configDirs: '/mnt/devcontainer/.claude, /opt/claude-work' },
+      { CLAUDE_CONFIG_DIR: '/ignored' },
+    )).toEqual(['/mnt/devcontainer/.claude', '/opt/claude-work']);
+  });
+
+  test('accepts an array of directories in config', () => {
+    expect(resolveClaudeCodeHomes({ configDirs: ['/a', '/b'] }, {})).toEqual(['/a', '/b']);
+  });
+
+  test('expands ~ and removes duplicates', () => {
+    expect(resolveClaudeCodeHomes({ configDirs: '~/.claude,~/.claude' }, {})).toEqual([path.join(os.homedir(), '.claude')]);
+  });
+
+  test('falls back when config value is blank', () => {
+    expect(resolveClaudeCodeHomes({ configDirs: ' , ' }, { CLAUDE_CONFIG_DIR: '/opt/claude-work' })).toEqual(['/opt/claude-work']);
+  });
+});
+
+describe('resolveFilesystemPaths', () => {
+  test('declares the default home and the homes from CLAUDE_CONFIG_DIR', () => {
+    expect(resolveFilesystemPaths({})).toEqual([CLAUDE_CODE_HOME]);
+    expect(resolveFilesystemPaths({ CLAUDE_CONFIG_DIR: `/opt/claude-work${path.delimiter}/opt/claude-home` })).toEqual([
+      '/opt/claude-work',
+      '/opt/claude-home',
+      CLAUDE_CODE_HOME,
+    ]);
+  });
+});
+
+describe('isWithinPaths', () => {
+  test('accepts a declared path and its subdirectories only', () => {
+    expect(isWithinPaths('/opt/claude', ['/opt/claude'])).toBe(true);
+    expect(isWithinPaths('/opt/claude/profiles/work', ['/opt/claude'])).toBe(true);
+    expect(isWithinPaths('/opt/claude-work', ['/opt/claude'])).toBe(false);
+    expect(isWithinPaths('/opt', ['/opt/claude'])).toBe(false);
+  });
+});
+
+describe('configureClaudeCodeHomes', () => {
+  test('reports whether the resolved set changed', () => {
+    expect(configureClaudeCodeHomes({ configDirs: '/a,/b' })).toBe(true);
+    expect(configureClaudeCodeHomes({ configDirs: '/a,/b' })).toBe(false);
+    expect(getClaudeCodeHomes()).toEqual(['/a', '/b']);
+    expect(getProjectsPaths()).toEqual(['/a/projects', '/b/projects']);
+  });
+});
+
+describe('claudeCodeHomeForProjectDir', () => {
+  test('returns the home that owns a project directory', () => {
+    expect(claudeCodeHomeForProjectDir('/opt/claude-work/projects/-Users-test-app')).toBe('/opt/claude-work');
+  });
+});
+
+describe('getProjectDirs', () => {
+  test('scans project directories across every configured home', async () => {
+    const tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-homes-'));
+    try {
+      await fs.mkdir(path.join(tmp, 'work', 'projects', '-repo-a'), { recursive: true });
+      await fs.mkdir(path.join(tmp, 'personal', 'projects', '-repo-b'), { recursive: true });
+
+      configureClaudeCodeHomes({ configDirs: [path.join(tmp, 'work'), path.join(tmp, 'personal'), path.join(tmp, 'missing')] });
+
+      expect((await getProjectDirs()).sort()).toEqual([
+        path.join(tmp, 'personal', 'projects', '-repo-b'),
+        path.join(tmp, 'work', 'projects', '-repo-a'),
+      ]);
+    } finally {
+      await fs.rm(tmp, { recursive: true, force: true });
+    }
+  });
+});
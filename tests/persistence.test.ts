@@ -0,0 +1,237 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { AgentFetchContext, PluginStorage, SessionUsageData } from '@tokentop/plugin-sdk';
+import { sessionAggregateCache, sessionCache, sessionMetadataIndex } from '../src/cache.ts';
+import { createSessionParseState, parseSessionsFromProjects } from '../src/parser.ts';
+import { configureClaudeCodeHomes } from '../src/paths.ts';
+import {
+  PARSER_SCHEMA_VERSION,
+  PERSISTENT_CACHE_KEY,
+  configurePersistentCache,
+  flushPersistentCache,
+  getPersistedSession,
+  isPersistentCacheEnabled,
+  loadPersistentCache,
+  persistedSessionKey,
+  persistentCache,
+  prunePersistedSessions,
+  recordPersistedSession,
+} from '../src/persistence.ts';
+import { clearModelPricingOverrides, setModelPricingOverrides } from '../src/pricing.ts';
+import { stopSessionWatcher } from '../src/watcher.ts';
+
+const ROW: SessionUsageData = {
+  sessionId: 'ses-1',
+  providerId: 'anthropic',
+  modelId: 'claude-opus-4-6',
+  tokens: { input: 1, output: 2 },
+  timestamp: 1,
+  sessionUpdatedAt: 1,
+};
+
+let tmpDir: string;
+let stored: Map<string, string>;
+
+function createStorage(): PluginStorage {
+  return {
+    get: async (key) => stored.get(key) ?? null,
+    set: async (key, value) => { stored.set(key, value); },
+    delete: async (key) => { stored.delete(key); },
+    has: async (key) => stored.has(key),
+  };
+}
+
+async function reopenPersistentCache(): Promise<void> {
+  configurePersistentCache({});
+  configurePersistentCache({ persistentCache: true }, createStorage());
+  await loadPersistentCache();
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-persist-'));
+  stored = new Map();
+  configurePersistentCache({ persistentCache: true }, createStorage());
+});
+
+afterEach(async () => {
+  configurePersistentCache({});
+  persistentCache.storage = undefined;
+  clearModelPricingOverrides();
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('configurePersistentCache', () => {
+  test('is disabled unless persistentCache is set and the host storage is known', () => {
+    expect(isPersistentCacheEnabled()).toBe(true);
+
+    configurePersistentCache({});
+    expect(isPersistentCacheEnabled()).toBe(false);
+
+    persistentCache.storage = undefined;
+    configurePersistentCache({ persistentCache: true });
+    expect(isPersistentCacheEnabled()).toBe(false);
+  });
+
+  test('keeps the last storage when a config arrives without one', () => {
+    configurePersistentCache({});
+    configurePersistentCache({ persistentCache: true });
+    expect(isPersistentCacheEnabled()).toBe(true);
+  });
+});
+
+describe('persistent cache storage', () => {
+  test('round-trips sessions through a flush and reload', async () => {
+    await loadPersistentCache();
+    recordPersistedSession('/p/ses-1.jsonl', { sessionId: 'ses-1', size: 10, mtimeMs: 5, usageRows: [ROW] });
+    await flushPersistentCache();
+
+    await reopenPersistentCache();
+    expect((await getPersistedSession('/p/ses-1.jsonl'))?.usageRows).toEqual([ROW]);
+    expect(await getPersistedSession('/p/ses-2.jsonl')).toBeUndefined();
+  });
+
+  test('keeps the parse state and cursor of a session', async () => {
+    await loadPersistentCache();
+    const parseState = createSessionParseState();
+    parseState.cwds.add('/Users/test/project');
+    parseState.sidechainRoots.set('uuid-1', 'uuid-0');
+    const cursor = { ino: 7, offset: 10, remainder: Buffer.from('{"partial'), signature: Buffer.from('line\n') };
+    recordPersistedSession('/p/ses-1.jsonl', { sessionId: 'ses-1', size: 10, mtimeMs: 5, usageRows: [ROW], parseState, cursor });
+    await flushPersistentCache();
+
+    await reopenPersistentCache();
+    const restored = await getPersistedSession('/p/ses-1.jsonl');
+    expect(restored?.parseState).toEqual(parseState);
+    expect(restored?.cursor?.remainder.equals(cursor.remainder)).toBe(true);
+    expect(restored?.cursor?.signature.equals(cursor.signature)).toBe(true);
+  });
+
+  test('writes only the sessions that changed since the last flush', async () => {
+    await loadPersistentCache();
+    recordPersistedSession('/p/ses-1.jsonl', { sessionId: 'ses-1', size: 10, mtimeMs: 5, usageRows: [ROW] });
+    recordPersistedSession('/p/ses-2.jsonl', { sessionId: 'ses-2', size: 10, mtimeMs: 5, usageRows: [ROW] });
+    await flushPersistentCache();
+    expect(Array.from(stored.keys())).toEqual([
+      persistedSessionKey('/p/ses-1.jsonl'),
+      persistedSessionKey('/p/ses-2.jsonl'),
+      PERSISTENT_CACHE_KEY,
+    ]);
+
+    const written: string[] = [];
+    const set = stored.set.bind(stored);
+    stored.set = (key, value) => { written.push(key); return set(key, value); };
+
+    recordPersistedSession('/p/ses-2.jsonl', { sessionId: 'ses-2', size: 20, mtimeMs: 6, usageRows: [ROW] });
+    await flushPersistentCache(true);
+    expect(written).toEqual([persistedSessionKey('/p/ses-2.jsonl')]);
+
+    prunePersistedSessions(new Set(['/p/ses-2.jsonl']));
+    await flushPersistentCache(true);
+    expect(stored.has(persistedSessionKey('/p/ses-1.jsonl'))).toBe(false);
+    expect(JSON.parse(stored.get(PERSISTENT_CACHE_KEY)!).files).toEqual(['/p/ses-2.jsonl']);
+  });
+
+  test('drops sessions written by a different parser schema version', async () => {
+    stored.set(PERSISTENT_CACHE_KEY, JSON.stringify({ version: PARSER_SCHEMA_VERSION + 1, pricing: '', files: ['/p/ses-1.jsonl'] }));
+    stored.set(persistedSessionKey('/p/ses-1.jsonl'), JSON.stringify({ sessionId: 'ses-1', size: 10, mtimeMs: 5, usageRows: [ROW] }));
+
+    await reopenPersistentCache();
+    expect(await getPersistedSession('/p/ses-1.jsonl')).toBeUndefined();
+    expect(persistentCache.dirty).toBe(true);
+
+    await flushPersistentCache();
+    expect(stored.has(persistedSessionKey('/p/ses-1.jsonl'))).toBe(false);
+    expect(JSON.parse(stored.get(PERSISTENT_CACHE_KEY)!)).toEqual({ version: PARSER_SCHEMA_VERSION, pricing: '', files: [] });
+  });
+
+  test('ignores a corrupt index', async () => {
+    stored.set(PERSISTENT_CACHE_KEY, '{"version":');
+
+    await reopenPersistentCache();
+    expect(persistentCache.files.size).toBe(0);
+  });
+
+  test('discards persisted costs when pricing overrides change', async () => {
+    await loadPersistentCache();
+    recordPersistedSession('/p/ses-1.jsonl', { sessionId: 'ses-1', size: 10, mtimeMs: 5, usageRows: [ROW] });
+
+    setModelPricingOverrides({ 'claude-opus-4-6': { input: 1, output: 2 } });
+    expect(await getPersistedSession('/p/ses-1.jsonl')).toBeUndefined();
+  });
+});
+
+describe('parseSessionsFromProjects with a persistent cache', () => {
+  const debugLogs: Array<Record<string, unknown> | undefined> = [];
+  const ctx = {
+    config: {},
+    logger: { debug: (_message: string, data?: Record<string, unknown>) => debugLogs.push(data), info() {}, warn() {}, error() {} },
+  } as unknown as AgentFetchContext;
+
+  function resetInMemoryCaches(): void {
+    sessionAggregateCache.clear();
+    sessionMetadataIndex.clear();
+    sessionCache.lastCheck = 0;
+    sessionCache.lastResult = [];
+  }
+
+  let transcriptPath: string;
+
+  function assistantLine(messageId: string): string {
+    return `${JSON.stringify({
+      type: 'assistant',
+      timestamp: '2026-02-15T14:19:00.000Z',
+      cwd: '/Users/test/project',
+      message: {
+        id: messageId,
+        model: 'claude-opus-4-6',
+        content: [],
+        usage: { input_tokens: 3, output_tokens: 9, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+      },
+    })}\n`;
+  }
+
+  beforeEach(async () => {
+    const projectDir = path.join(tmpDir, 'home', 'projects', '-Users-test-project');
+    await fs.mkdir(projectDir, { recursive: true });
+    transcriptPath = path.join(projectDir, 'ses-1.jsonl');
+    await fs.writeFile(transcriptPath, assistantLine('msg_1'));
+
+    configureClaudeCodeHomes({ configDirs: path.join(tmpDir, 'home') });
+    resetInMemoryCaches();
+    debugLogs.length = 0;
+  });
+
+  afterEach(() => {
+    stopSessionWatcher();
+    configureClaudeCodeHomes({});
+    resetInMemoryCaches();
+  });
+
+  test('a fresh process serves unchanged transcripts from the persisted rows', async () => {
+    const first = await parseSessionsFromProjects({}, ctx);
+    expect(debugLogs.at(-1)?.fullParses).toBe(1);
+
+    resetInMemoryCaches();
+    await reopenPersistentCache();
+
+    const second = await parseSessionsFromProjects({}, ctx);
+    expect(debugLogs.at(-1)?.persistedHits).toBe(1);
+    expect(debugLogs.at(-1)?.fullParses).toBe(0);
+    expect(second).toEqual(first);
+  });
+
+  test('a fresh process resumes an appended transcript from the persisted cursor', async () => {
+    await parseSessionsFromProjects({}, ctx);
+    await fs.appendFile(transcriptPath, assistantLine('msg_2'));
+
+    resetInMemoryCaches();
+    await reopenPersistentCache();
+
+    const rows = await parseSessionsFromProjects({}, ctx);
+    expect(debugLogs.at(-1)?.tailParses).toBe(1);
+    expect(debugLogs.at(-1)?.fullParses).toBe(0);
+    expect(rows.map((row) => row.metadata?.messageId)).toEqual(['msg_1', 'msg_2']);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import {
+  BUNDLED_MODEL_PRICING,
+  LONG_CONTEXT_THRESHOLD_TOKENS,
+  clearModelPricingOverrides,
+  estimateCost,
+  getModelPricing,
+  normalizeModelId,
+  setModelPricingOverrides,
+} from '../src/pricing.ts';
+import { sessionAggregateCache } from '../src/cache.ts';
+
+afterEach(() => {
+  clearModelPricingOverrides();
+});
+
+describe('normalizeModelId', () => {
+  test('leaves undated ids unchanged', () => {
+    expect(normalizeModelId('claude-opus-4-6')).toBe('claude-opus-4-6');
+  });
+
+  test('strips dated snapshot suffix', () => {
+    expect(normalizeModelId('claude-sonnet-4-5-20250929')).toBe('claude-sonnet-4-5');
+    expect(normalizeModelId('claude-3-5-haiku-20241022')).toBe('claude-3-5-haiku');
+  });
+
+  test('strips -latest alias suffix', () => {
+    expect(normalizeModelId('claude-3-7-sonnet-latest')).toBe('claude-3-7-sonnet');
+  });
+
+  test('normalizes Bedrock and Vertex style ids', () => {
+    expect(normalizeModelId('us.anthropic.claude-sonnet-4-20250514-v1:0')).toBe('claude-sonnet-4');
+    expect(normalizeModelId('claude-opus-4-1@20250805')).toBe('claude-opus-4-1');
+  });
+
+  test('strips context-window annotations', () => {
+    expect(normalizeModelId('claude-sonnet-4-5[1m]')).toBe('claude-sonnet-4-5');
+  });
+});
+
+describe('getModelPricing', () => {
+  test('resolves dated Sonnet and Haiku ids to bundled rates', () => {
+    expect(getModelPricing('claude-sonnet-4-20250514')).toBe(BUNDLED_MODEL_PRICING['claude-sonnet-4']);
+    expect(getModelPricing('claude-haiku-4-5-20251001')).toBe(BUNDLED_MODEL_PRICING['claude-haiku-4-5']);
+  });
+
+  test('does not fall back to a related model family', () => {
+    expect(getModelPricing('claude-opus-9')).toBeUndefined();
+  });
+
+  test('returns undefined for synthetic and unknown models', () => {
+    expect(getModelPricing('<synthetic>')).toBeUndefined();
+    expect(getModelPricing('gpt-4o')).toBeUndefined();
+  });
+});
+
+describe('estimateCost', () => {
+  test('prices every token class per million tokens', () => {
+    const estimate = estimateCost('claude-opus-4-6', {
+      input: 1_000_000,
+      output: 1_000_000,
+      cacheRead: 1_000_000,
+      cacheWrite: 1_000_000,
+    });
+    expect(estimate.costStatus).toBe('estimated');
+    expect(estimate.cost).toBeCloseTo(5 + 25 + 0.5 + 6.25, 10);
+  });
+
+  test('treats missing cache fields as zero', () => {
+    const estimate = estimateCost('claude-sonnet-4-5-20250929', { input: 1000, output: 500 });
+    expect(estimate.cost).toBeCloseTo((1000 * 3 + 500 * 15) / 1_000_000, 10);
+  });
+
+  test('bills the 1h cache-write portion at the long-TTL rate', () => {
+    const estimate = estimateCost('claude-opus-4-6', {
+      input: 0,
+      output: 0,
+      cacheWrite: 3_000_000,
+      cacheWrite1h: 1_000_000,
+    });
+    expect(estimate.cost).toBeCloseTo(2 * 6.25 + 10, 10);
+  });
+
+  test('defaults 1h cache-write rate to twice the input rate', () => {
+    setModelPricingOverrides({ 'claude-next-1': { input: 10, output: 20, cacheWrite: 12.5 } });
+    const estimate = estimateCost('claude-next-1', { input: 0, output: 0, cacheWrite: 1_000_000, cacheWrite1h: 1_000_000 });
+    expect(estimate.cost).toBeCloseTo(20, 10);
+  });
+
+  test('reports unknown models as unpriced without a cost', () => {
+    const estimate = estimateCost('claude-unknown-1', { input: 1000, output: 500 });
+    expect(estimate.costStatus).toBe('unpriced');
+    expect(estimate.cost).toBeUndefined();
+  });
+
+  test('applies long-context rates above the threshold when the model has them', () => {
+    const estimate = estimateCost('claude-sonnet-4', {
+      input: 10,
+      output: 1000,
+      cacheRead: LONG_CONTEXT_THRESHOLD_TOKENS,
+    });
+    expect(estimate.cost).toBeCloseTo((10 * 6 + 1000 * 22.5 + LONG_CONTEXT_THRESHOLD_TOKENS * 0.6) / 1_000_000, 10);
+  });
+
+  test('ignores the threshold for models without long-context rates', () => {
+    const estimate = estimateCost('claude-opus-4-6', { input: LONG_CONTEXT_THRESHOLD_TOKENS + 1, output: 0 });
+    expect(estimate.cost).toBeCloseTo(((LONG_CONTEXT_THRESHOLD_TOKENS + 1) * 5) / 1_000_000, 10);
+  });
+});
+
+describe('pricing overrides', () => {
+  test('override replaces bundled rate for matching model', () => {
+    setModelPricingOverrides({ 'claude-opus-4-6': { input: 1, output: 2 } });
+    const estimate = estimateCost('claude-opus-4-6', { input: 1_000_000, output: 1_000_000 });
+    expect(estimate.cost).toBeCloseTo(3, 10);
+  });
+
+  test('override extends the table with new models', () => {
+    setModelPricingOverrides({ 'claude-next-1': { input: 10, output: 20 } });
+    expect(estimateCost('claude-next-1-20270101', { input: 1_000_000, output: 0 }).cost).toBeCloseTo(10, 10);
+  });
+
+  test('cache rates default to input rate when override omits them', () => {
+    setModelPricingOverrides({ 'claude-next-1': { input: 10, output: 20 } });
+    const estimate = estimateCost('claude-next-1', { input: 0, output: 0, cacheRead: 1_000_000, cacheWrite: 1_000_000 });
+    expect(estimate.cost).toBeCloseTo(20, 10);
+  });
+
+  test('clearing overrides restores bundled rates', () => {
+    setModelPricingOverrides({ 'claude-opus-4-6': { input: 1, output: 2 } });
+    clearModelPricingOverrides();
+    expect(getModelPricing('claude-opus-4-6')).toBe(BUNDLED_MODEL_PRICING['claude-opus-4-6']);
+  });
+
+  test('changing overrides invalidates cached session rows', () => {
+    sessionAggregateCache.set('s1', { updatedAt: 1, usageRows: [], lastAccessed: 1 });
+    setModelPricingOverrides({ 'claude-opus-4-6': { input: 1, output: 2 } });
+    expect(sessionAggregateCache.size).toBe(0);
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { AgentFetchContext, SessionUsageData } from '@tokentop/plugin-sdk';
+import { sessionAggregateCache, sessionCache, sessionMetadataIndex } from '../src/cache.ts';
+import { parseProjectSummaries, parseSessionSummaries, parseSessionsFromProjects } from '../src/parser.ts';
+import { configureClaudeCodeHomes } from '../src/paths.ts';
+import {
+  clearProjectIdentityCache,
+  configureProjectIdentity,
+  encodeProjectPath,
+  findGitRoot,
+  resolveLaunchPath,
+  resolveProjectIdentity,
+  summarizeProjects,
+} from '../src/projects.ts';
+import { burnRates, resetBurnRates } from '../src/rates.ts';
+import { summarizeSessionRows } from '../src/summaries.ts';
+import type { SessionSummary } from '../src/types.ts';
+import { decodeProjectDirName } from '../src/utils.ts';
+import { processJsonlDelta, startActivityWatch, stopActivityWatch, stopSessionWatcher } from '../src/watcher.ts';
+
+function makeSummary(sessionId: string, timestamp: number, modelId = 'claude-opus-4-6'): SessionSummary {
+  const row: SessionUsageData = {
+    sessionId,
+    providerId: 'anthropic',
+    modelId,
+    tokens: { input: 10, output: 100 },
+    timestamp,
+    cost: 0.5,
+  };
+  return summarizeSessionRows(sessionId, timestamp, '/home/.claude', [row])!;
+}
+
+describe('resolveLaunchPath', () => {
+  test('prefers the cwd that encodes to the project directory name', () => {
+    const dirName = encodeProjectPath('/Users/test/my-project');
+    expect(dirName).toBe('-Users-test-my-project');
+    expect(resolveLaunchPath(dirName, ['/Users/test/my-project/src', '/Users/test/my-project'])).toBe('/Users/test/my-project');
+  });
+
+  test('falls back to the first cwd, then to the decoded directory name', () => {
+    expect(resolveLaunchPath('-Users-test-project', ['/mnt/workspace'])).toBe('/mnt/workspace');
+    expect(resolveLaunchPath('-Users-test-project', [])).toBe('/Users/test/project');
+    expect(resolveLaunchPath('', [])).toBeUndefined();
+  });
+});
+
+describe('findGitRoot', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'claude-git-')));
+    configureProjectIdentity({ detectGitRoots: true });
+  });
+
+  afterEach(async () => {
+    configureProjectIdentity({});
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('walks up to the directory holding .git, including worktree files', async () => {
+    await fs.mkdir(path.join(tmpDir, 'repo', '.git'), { recursive: true });
+    await fs.mkdir(path.join(tmpDir, 'repo', 'packages', 'app'), { recursive: true });
+    await fs.mkdir(path.join(tmpDir, 'worktree'), { recursive: true });
+    await fs.writeFile(path.join(tmpDir, 'worktree', '.git'), 'gitdir: ../repo/.git/worktrees/wt\n');
+
+    expect(await findGitRoot(path.join(tmpDir, 'repo', 'packages', 'app'), tmpDir)).toBe(path.join(tmpDir, 'repo'));
+    expect(await findGitRoot(path.join(tmpDir, 'worktree'), tmpDir)).toBe(path.join(tmpDir, 'worktree'));
+  });
+
+  test('does not climb into a repository at the home directory', async () => {
+    await fs.mkdir(path.join(tmpDir, '.git'), { recursive: true });
+    await fs.mkdir(path.join(tmpDir, 'scratch'), { recursive: true });
+
+    expect(await findGitRoot(path.join(tmpDir, 'scratch'), tmpDir)).toBeUndefined();
+    expect(await findGitRoot(tmpDir, tmpDir)).toBe(tmpDir);
+  });
+
+  test('resolves sessions in a subdirectory to the repository root', async () => {
+    await fs.mkdir(path.join(tmpDir, 'repo', '.git'), { recursive: true });
+    const appPath = path.join(tmpDir, 'repo', 'app');
+
+    expect(await resolveProjectIdentity(encodeProjectPath(appPath), [appPath], tmpDir)).toEqual({
+      projectPath: path.join(tmpDir, 'repo'),
+      launchPath: appPath,
+      gitRoot: path.join(tmpDir, 'repo'),
+    });
+  });
+
+  test('keeps the launch directory as the project unless detection is enabled', async () => {
+    await fs.mkdir(path.join(tmpDir, 'repo', '.git'), { recursive: true });
+    const appPath = path.join(tmpDir, 'repo', 'app');
+    configureProjectIdentity({});
+
+    expect(await resolveProjectIdentity(encodeProjectPath(appPath), [appPath], tmpDir)).toEqual({
+      projectPath: appPath,
+      launchPath: appPath,
+    });
+  });
+});
+
+describe('summarizeProjects', () => {
+  afterEach(() => {
+    clearProjectIdentityCache();
+  });
+
+  test('merges sessions per canonical project and orders projects by last activity', async () => {
+    const alpha = (await resolveProjectIdentity('-nonexistent-alpha', ['/nonexistent/alpha'], '/nonexistent'))!;
+    const beta = (await resolveProjectIdentity('-nonexistent-beta', [], '/nonexistent'))!;
+    const projects = summarizeProjects([
+      { project: alpha, summary: makeSummary('ses-1', 1000) },
+      { project: beta, summary: makeSummary('ses-2', 3000) },
+      { project: alpha, summary: makeSummary('ses-3', 2000, 'claude-haiku-4-5') },
+    ]);
+
+    expect(projects.map((project) => [project.projectPath, project.sessionCount, project.lastActiveAt])).toEqual([
+      ['/nonexistent/beta', 1, 3000],
+      ['/nonexistent/alpha', 2, 2000],
+    ]);
+    expect(projects[1]).toMatchObject({
+      launchPaths: ['/nonexistent/alpha'],
+      messageCount: 2,
+      tokens: { input: 20, output: 200, cacheRead: 0, cacheWrite: 0 },
+      cost: 1,
+    });
+    expect(Object.keys(projects[1]!.models)).toEqual(['claude-opus-4-6', 'claude-haiku-4-5']);
+    expect(projects[1]!.gitRoot).toBeUndefined();
+  });
+});
+
+describe('parseProjectSummaries', () => {
+  const ctx = {
+    config: {},
+    logger: { debug() {}, info() {}, warn() {}, error() {} },
+  } as unknown as AgentFetchContext;
+
+  let tmpDir: string;
+  let repoPath: string;
+
+  function assistantLine(id: string, timestamp: string, cwd?: string): string {
+    return JSON.stringify({
+      type: 'assistant',
+      uuid: `uuid-${id}`,
+      parentUuid: null,
+      timestamp,
+      ...(cwd ? { cwd } : {}),
+      isSidechain: false,
+      message: {
+        id,
+        model: 'claude-opus-4-6',
+        content: [],
+        usage: { input_tokens: 5, output_tokens: 20, cache_creation_input_tokens: 0, cache_read_input_tokens: 100 },
+      },
+    });
+  }
+
+  async function writeSession(launchPath: string, sessionId: string, lines: string[]): Promise<string> {
+    const projectDir = path.join(tmpDir, 'claude', 'projects', encodeProjectPath(launchPath));
+    await fs.mkdir(projectDir, { recursive: true });
+    const filePath = path.join(projectDir, `${sessionId}.jsonl`);
+    await fs.writeFile(filePath, `${lines.join('\n')}\n`);
+    return filePath;
+  }
+
+  beforeEach(async () => {
+    tmpDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'claude-projects-')));
+    repoPath = path.join(tmpDir, 'repo');
+    await fs.mkdir(path.join(repoPath, '.git'), { recursive: true });
+    configureClaudeCodeHomes({ configDirs: path.join(tmpDir, 'claude') });
+    sessionAggregateCache.clear();
+    sessionMetadataIndex.clear();
+    configureProjectIdentity({ detectGitRoots: true });
+  });
+
+  afterEach(async () => {
+    stopSessionWatcher();
+    configureClaudeCodeHomes({});
+    sessionCache.lastCheck = 0;
+    sessionAggregateCache.clear();
+    sessionMetadataIndex.clear();
+    configureProjectIdentity({});
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('groups sessions under their git root and keeps sessions without a cwd', async () => {
+    const appPath = path.join(repoPath, 'packages', 'app');
+    const scratchPath = path.join(tmpDir, 'scratch');
+    await writeSession(repoPath, 'ses-root', [
+      assistantLine('msg_1', '2026-02-01T10:00:00.000Z', repoPath),
+      assistantLine('msg_2', '2026-02-01T10:05:00.000Z', appPath),
+    ]);
+    await writeSession(appPath, 'ses-app', [assistantLine('msg_3', '2026-02-01T12:00:00.000Z', appPath)]);
+    await writeSession(scratchPath, 'ses-nocwd', [assistantLine('msg_4', '2026-02-01T09:00:00.000Z')]);
+
+    const projects = await parseProjectSummaries({}, ctx);
+
+    expect(projects.map((project) => [project.projectPath, project.sessionCount, project.messageCount])).toEqual([
+      [repoPath, 2, 3],
+      [decodeProjectDirName(encodeProjectPath(scratchPath)), 1, 1],
+    ]);
+    expect(projects[0]).toMatchObject({
+      gitRoot: repoPath,
+      launchPaths: [appPath, repoPath].sort(),
+      lastActiveAt: Date.parse('2026-02-01T12:00:00.000Z'),
+    });
+  });
+
+  test('writes the canonical project onto rows and summaries and keeps the launch path', async () => {
+    const appPath = path.join(repoPath, 'packages', 'app');
+    const scratchPath = path.join(tmpDir, 'scratch');
+    await writeSession(appPath, 'ses-app', [assistantLine('msg_1', '2026-02-01T12:00:00.000Z', appPath)]);
+    await writeSession(scratchPath, 'ses-nocwd', [assistantLine('msg_2', '2026-02-01T09:00:00.000Z')]);
+
+    const rows = await parseSessionsFromProjects({}, ctx);
+    const scratchProject = decodeProjectDirName(encodeProjectPath(scratchPath));
+    const bySession = (a: { sessionId: string }, b: { sessionId: string }) => a.sessionId.localeCompare(b.sessionId);
+    expect(rows.sort(bySession).map((row) => [row.sessionId, row.projectPath, row.metadata?.launchPath])).toEqual([
+      ['ses-app', repoPath, appPath],
+      ['ses-nocwd', scratchProject, scratchProject],
+    ]);
+
+    const summaries = await parseSessionSummaries({}, ctx);
+    expect(summaries.sort(bySession).map((summary) => [summary.sessionId, summary.projectPath])).toEqual([
+      ['ses-app', repoPath],
+      ['ses-nocwd', scratchProject],
+    ]);
+  });
+
+  test('attributes live usage to the canonical project', async () => {
+    const appPath = path.join(repoPath, 'packages', 'app');
+    const filePath = await writeSession(appPath, 'ses-live', []);
+    resetBurnRates();
+    await startActivityWatch(() => {});
+
+    try {
+      await fs.appendFile(filePath, `${assistantLine('msg_live', new Date().toISOString(), appPath)}\n`);
+      await processJsonlDelta(filePath);
+      expect(burnRates.sessions.get('ses-live')?.projectPath).toBe(repoPath);
+    } finally {
+      stopActivityWatch();
+      resetBurnRates();
+    }
+  });
+});
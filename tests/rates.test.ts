@@ -0,0 +1,153 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import {
+  DEFAULT_BURN_RATE_WINDOWS_MINUTES,
+  burnRates,
+  configureBurnRateWindows,
+  getBurnRates,
+  projectSessionUsage,
+  recordRateUsage,
+  resetBurnRates,
+  seedRateUsage,
+} from '../src/rates.ts';
+import type { LiveUsage } from '../src/types.ts';
+
+const NOW = new Date(2026, 1, 15, 12, 0, 0).getTime();
+const MINUTE = 60 * 1000;
+
+function makeUsage(overrides?: Partial<LiveUsage>): LiveUsage {
+  return {
+    messageId: 'msg_1',
+    sessionId: 'ses-1',
+    modelId: 'claude-opus-4-6',
+    projectPath: '/Users/test/project',
+    tokens: { input: 100, output: 50, cacheRead: 200, cacheWrite: 10 },
+    cost: 0.3,
+    timestamp: NOW,
+    ...overrides,
+  };
+}
+
+describe('burn rates', () => {
+  beforeEach(() => {
+    configureBurnRateWindows({});
+    resetBurnRates();
+  });
+
+  afterEach(() => {
+    configureBurnRateWindows({});
+    resetBurnRates();
+  });
+
+  test('parses configured windows and falls back to the defaults', () => {
+    configureBurnRateWindows({ burnRateWindowsMinutes: '10, 2,abc,2,-1' });
+    expect(burnRates.windowsMinutes).toEqual([2, 10]);
+
+    configureBurnRateWindows({ burnRateWindowsMinutes: 'none' });
+    expect(burnRates.windowsMinutes).toEqual(DEFAULT_BURN_RATE_WINDOWS_MINUTES);
+  });
+
+  test('splits tokens per minute by kind for each window', () => {
+    recordRateUsage(makeUsage({ messageId: 'msg_1', timestamp: NOW - 30 * 1000 }), NOW);
+    recordRateUsage(makeUsage({ messageId: 'msg_2', timestamp: NOW - 3 * MINUTE }), NOW);
+
+    const [rate] = getBurnRates(NOW);
+    expect(rate?.windows.map((window) => [window.windowMinutes, window.messageCount])).toEqual([
+      [1, 1],
+      [5, 2],
+      [15, 2],
+    ]);
+    expect(rate?.windows[1]?.tokensPerMinute).toEqual({ input: 40, output: 20, cacheRead: 80, cacheWrite: 4, total: 144 });
+    expect(rate?.windows[1]?.costPerMinute).toBeCloseTo(0.12);
+    expect(rate?.tokens).toEqual({ input: 200, output: 100, cacheRead: 400, cacheWrite: 20 });
+    expect(rate?.projectPath).toBe('/Users/test/project');
+  });
+
+  test('lists only sessions active within the longest window, busiest first', () => {
+    recordRateUsage(makeUsage({ messageId: 'msg_quiet', sessionId: 'ses-quiet', timestamp: NOW - 10 * MINUTE }), NOW);
+    recordRateUsage(makeUsage({ messageId: 'msg_busy', sessionId: 'ses-busy' }), NOW);
+    recordRateUsage(makeUsage({ messageId: 'msg_stale', sessionId: 'ses-stale', timestamp: NOW - 20 * MINUTE }), NOW);
+
+    expect(getBurnRates(NOW).map((rate) => rate.sessionId)).toEqual(['ses-busy', 'ses-quiet']);
+    expect(getBurnRates(NOW + 14 * MINUTE).map((rate) => rate.sessionId)).toEqual(['ses-busy']);
+  });
+
+  test('forgets sessions and their messages once they are idle for the longest window', () => {
+    recordRateUsage(makeUsage({ messageId: 'msg_old', sessionId: 'ses-old', timestamp: NOW - 10 * MINUTE }), NOW);
+    recordRateUsage(makeUsage({ messageId: 'msg_new', sessionId: 'ses-new' }), NOW);
+    expect(getBurnRates(NOW)).toHaveLength(2);
+
+    getBurnRates(NOW + 6 * MINUTE);
+    expect(Array.from(burnRates.sessions.keys())).toEqual(['ses-new']);
+    expect(Array.from(burnRates.messages.keys())).toEqual(['msg_new']);
+
+    seedRateUsage([{
+      sessionId: 'ses-history',
+      providerId: 'anthropic',
+      modelId: 'claude-opus-4-6',
+      tokens: { input: 60, output: 0 },
+      timestamp: NOW - 24 * 60 * MINUTE,
+      metadata: { messageId: 'msg_history' },
+    }], NOW);
+    expect(burnRates.sessions.has('ses-history')).toBe(false);
+    expect(burnRates.messages.has('msg_history')).toBe(false);
+  });
+
+  test('forgets idle sessions while recording even if the rates are never read', () => {
+    recordRateUsage(makeUsage({ messageId: 'msg_old', sessionId: 'ses-old', timestamp: NOW - 10 * MINUTE }), NOW);
+    recordRateUsage(makeUsage({ messageId: 'msg_soon', sessionId: 'ses-new', timestamp: NOW + 6 * MINUTE }), NOW + 6 * MINUTE);
+    expect(burnRates.sessions.has('ses-old')).toBe(true);
+
+    recordRateUsage(makeUsage({ messageId: 'msg_later', sessionId: 'ses-new', timestamp: NOW + 16 * MINUTE }), NOW + 16 * MINUTE);
+    expect(Array.from(burnRates.sessions.keys())).toEqual(['ses-new']);
+    expect(burnRates.messages.has('msg_old')).toBe(false);
+  });
+
+  test('replaces the usage of a repeated message and keeps it in its first session', () => {
+    recordRateUsage(makeUsage({ tokens: { input: 100, output: 10 } }), NOW);
+    recordRateUsage(makeUsage({ tokens: { input: 100, output: 40 } }), NOW);
+    recordRateUsage(makeUsage({ sessionId: 'ses-resumed', tokens: { input: 100, output: 40 } }), NOW);
+
+    const rates = getBurnRates(NOW);
+    expect(rates.map((rate) => rate.sessionId)).toEqual(['ses-1']);
+    expect(rates[0]?.tokens).toEqual({ input: 100, output: 40, cacheRead: 0, cacheWrite: 0 });
+    expect(rates[0]?.windows[0]?.messageCount).toBe(1);
+  });
+
+  test('seeds from parsed rows that carry a message id', () => {
+    const row: SessionUsageData = {
+      sessionId: 'ses-seeded',
+      providerId: 'anthropic',
+      modelId: 'claude-opus-4-6',
+      tokens: { input: 60, output: 0 },
+      timestamp: NOW - 30 * 1000,
+      metadata: { messageId: 'msg_seeded' },
+    };
+    seedRateUsage([row, { ...row, metadata: {} }], NOW);
+
+    const [rate] = getBurnRates(NOW);
+    expect(rate?.sessionId).toBe('ses-seeded');
+    expect(rate?.windows[0]?.tokensPerMinute.total).toBe(60);
+  });
+
+  test('projects when a session reaches its token and spend ceilings', () => {
+    recordRateUsage(makeUsage({ tokens: { input: 1500, output: 0 }, cost: 1.5, timestamp: NOW - MINUTE }), NOW);
+
+    expect(projectSessionUsage('ses-1', { maxTokens: 3000, maxCost: 1 }, { windowMinutes: 5, now: NOW })).toEqual({
+      sessionId: 'ses-1',
+      windowMinutes: 5,
+      tokensReachedAt: NOW + 5 * MINUTE,
+      costReachedAt: NOW,
+    });
+  });
+
+  test('leaves the projection open when the session is not burning', () => {
+    recordRateUsage(makeUsage({ timestamp: NOW - 20 * MINUTE }), NOW);
+
+    expect(projectSessionUsage('ses-1', { maxTokens: 1_000_000 }, { now: NOW })).toEqual({
+      sessionId: 'ses-1',
+      windowMinutes: 15,
+    });
+    expect(projectSessionUsage('ses-unknown', { maxTokens: 1 }, { now: NOW })).toBeUndefined();
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { AgentFetchContext, SessionUsageData } from '@tokentop/plugin-sdk';
+import { sessionAggregateCache, sessionMetadataIndex } from '../src/cache.ts';
+import { parseSessionSummaries } from '../src/parser.ts';
+import { configureClaudeCodeHomes } from '../src/paths.ts';
+import { activeDuration, summarizeSessionRows, ACTIVE_GAP_THRESHOLD_MS } from '../src/summaries.ts';
+import { stopSessionWatcher } from '../src/watcher.ts';
+
+function makeRow(overrides: Partial<SessionUsageData> & { timestamp: number }): SessionUsageData {
+  return {
+    sessionId: 'ses-1',
+    sessionName: 'my-project',
+    projectPath: '/Users/test/project',
+    providerId: 'anthropic',
+    modelId: 'claude-opus-4-6',
+    tokens: { input: 10, output: 100, cacheRead: 1000, cacheWrite: 50 },
+    sessionUpdatedAt: 0,
+    ...overrides,
+  };
+}
+
+function assistantLine(id: string, timestamp: string, model = 'claude-opus-4-6'): string {
+  return JSON.stringify({
+    type: 'assistant',
+    uuid: `uuid-${id}`,
+    parentUuid: null,
+    timestamp,
+    cwd: '/Users/test/project',
+    slug: 'my-project',
+    isSidechain: false,
+    message: {
+      id,
+      model,
+      content: [],
+      usage: { input_tokens: 5, output_tokens: 20, cache_creation_input_tokens: 0, cache_read_input_tokens: 100 },
+    },
+  });
+}
+
+describe('activeDuration', () => {
+  test('sums gaps within the threshold and skips idle gaps', () => {
+    expect(activeDuration([0, 60_000, 120_000, 120_000 + ACTIVE_GAP_THRESHOLD_MS + 1, 120_000 + ACTIVE_GAP_THRESHOLD_MS + 30_001])).toBe(150_000);
+  });
+
+  test('handles unsorted input and single timestamps', () => {
+    expect(activeDuration([120_000, 0, 60_000])).toBe(120_000);
+    expect(activeDuration([5])).toBe(0);
+  });
+});
+
+describe('summarizeSessionRows', () => {
+  test('returns undefined for sessions without usage rows', () => {
+    expect(summarizeSessionRows('ses-1', 0, '/home/.claude', [])).toBeUndefined();
+  });
+
+  test('totals tokens, cost and message counts per model', () => {
+    const summary = summarizeSessionRows('ses-1', 9_000_000, '/home/.claude', [
+      makeRow({ timestamp: 1_000_000, cost: 0.5 }),
+      makeRow({ timestamp: 1_060_000, modelId: 'claude-haiku-4-5', tokens: { input: 1, output: 2 }, cost: 0.25 }),
+      makeRow({ timestamp: 8_000_000, modelId: 'claude-unreleased-9' }),
+    ])!;
+
+    expect(summary.startedAt).toBe(1_000_000);
+    expect(summary.endedAt).toBe(8_000_000);
+    expect(summary.wallClockMs).toBe(7_000_000);
+    expect(summary.activeMs).toBe(60_000);
+    expect(summary.messageCount).toBe(3);
+    expect(summary.tokens).toEqual({ input: 21, output: 202, cacheRead: 2000, cacheWrite: 100 });
+    expect(summary.cost).toBeCloseTo(0.75, 10);
+    expect(summary.sessionName).toBe('my-project');
+    expect(summary.projectPath).toBe('/Users/test/project');
+    expect(summary.claudeHome).toBe('/home/.claude');
+    expect(summary.models['claude-opus-4-6']).toEqual({
+      messageCount: 1,
+      tokens: { input: 10, output: 100, cacheRead: 1000, cacheWrite: 50 },
+      cost: 0.5,
+    });
+    expect(summary.models['claude-unreleased-9']!.cost).toBeUndefined();
+  });
+});
+
+describe('summarizeSessionRows compactions', () => {
+  test('lists compaction events carried on rows in time order', () => {
+    const late = { timestamp: 5_000, preTokens: 150_000, preTokensInferred: false, postTokens: 9_000 };
+    const early = { timestamp: 2_000, preTokens: 120_000, preTokensInferred: true, postTokens: 8_000 };
+    const summary = summarizeSessionRows('ses-1', 0, '/home/.claude', [
+      makeRow({ timestamp: 1_000 }),
+      makeRow({ timestamp: 6_000, metadata: { compaction: late } }),
+      makeRow({ timestamp: 3_000, metadata: { compaction: early } }),
+    ])!;
+
+    expect(summary.compactions).toEqual([early, late]);
+  });
+});
+
+describe('parseSessionSummaries', () => {
+  const ctx = {
+    config: {},
+    logger: { debug() {}, info() {}, warn() {}, error() {} },
+  } as unknown as AgentFetchContext;
+
+  let tmpHome: string;
+  let projectDir: string;
+
+  async function writeSession(sessionId: string, lines: string[], mtimeMs: number): Promise<void> {
+    const filePath = path.join(projectDir, `${sessionId}.jsonl`);
+    await fs.writeFile(filePath, `${lines.join('\n')}\n`);
+    await fs.utimes(filePath, mtimeMs / 1000, mtimeMs / 1000);
+  }
+
+  beforeEach(async () => {
+    tmpHome = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-summaries-'));
+    projectDir = path.join(tmpHome, 'projects', '-Users-test-project');
+    await fs.mkdir(projectDir, { recursive: true });
+    configureClaudeCodeHomes({ configDirs: tmpHome });
+    sessionAggregateCache.clear();
+    sessionMetadataIndex.clear();
+
+    await writeSession('ses-old', [assistantLine('msg_1', '2026-01-01T10:00:00.000Z')], Date.UTC(2026, 0, 1, 11));
+    await writeSession('ses-new', [
+      assistantLine('msg_2', '2026-02-01T10:00:00.000Z'),
+      assistantLine('msg_3', '2026-02-01T10:02:00.000Z', 'claude-haiku-4-5'),
+    ], Date.UTC(2026, 1, 1, 11));
+    await writeSession('ses-empty', [JSON.stringify({ type: 'user', message: { role: 'user', content: 'hi' } })], Date.UTC(2026, 1, 2));
+  });
+
+  afterEach(async () => {
+    stopSessionWatcher();
+    configureClaudeCodeHomes({});
+    sessionAggregateCache.clear();
+    sessionMetadataIndex.clear();
+    await fs.rm(tmpHome, { recursive: true, force: true });
+  });
+
+  test('returns one summary per session, most recently updated first', async () => {
+    const summaries = await parseSessionSummaries({}, ctx);
+
+    expect(summaries.map((summary) => summary.sessionId)).toEqual(['ses-new', 'ses-old']);
+    expect(summaries[0]!.messageCount).toBe(2);
+    expect(summaries[0]!.wallClockMs).toBe(120_000);
+    expect(Object.keys(summaries[0]!.models)).toEqual(['claude-opus-4-6', 'claude-haiku-4-5']);
+    expect(summaries[0]!.claudeHome).toBe(tmpHome);
+  });
+
+  test('respects sessionId, since, limit and offset', async () => {
+    expect((await parseSessionSummaries({ sessionId: 'ses-old' }, ctx)).map((s) => s.sessionId)).toEqual(['ses-old']);
+    expect((await parseSessionSummaries({ since: Date.UTC(2026, 0, 15) }, ctx)).map((s) => s.sessionId)).toEqual(['ses-new']);
+    expect((await parseSessionSummaries({ limit: 2 }, ctx)).map((s) => s.sessionId)).toEqual(['ses-new']);
+    expect((await parseSessionSummaries({ limit: 2, offset: 2 }, ctx)).map((s) => s.sessionId)).toEqual(['ses-old']);
+  });
+
+  test('merges files that share a session id into one summary', async () => {
+    const otherProject = path.join(tmpHome, 'projects', '-Users-test-other');
+    await fs.mkdir(otherProject, { recursive: true });
+    const filePath = path.join(otherProject, 'ses-new.jsonl');
+    await fs.writeFile(filePath, `${assistantLine('msg_4', '2026-02-01T09:00:00.000Z')}\n`);
+    await fs.utimes(filePath, Date.UTC(2026, 1, 1, 9) / 1000, Date.UTC(2026, 1, 1, 9) / 1000);
+
+    const summaries = await parseSessionSummaries({ sessionId: 'ses-new' }, ctx);
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0]!.messageCount).toBe(3);
+    expect(summaries[0]!.startedAt).toBe(Date.parse('2026-02-01T09:00:00.000Z'));
+  });
+
+  test('reuses the cached summary while the file is unchanged', async () => {
+    const first = await parseSessionSummaries({}, ctx);
+    const second = await parseSessionSummaries({}, ctx);
+    expect(second[0]).toBe(first[0]!);
+  });
+});
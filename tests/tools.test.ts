@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'bun:test';
+import { createToolUseState, toolMetadata, toolResultChars, trackToolUse } from '../src/tools.ts';
+
+function assistant(id: string, content: unknown[]): unknown {
+  return { type: 'assistant', message: { id, content } };
+}
+
+function toolResults(...results: Array<[string, unknown]>): unknown {
+  return {
+    type: 'user',
+    message: {
+      role: 'user',
+      content: results.map(([toolUseId, content]) => ({ type: 'tool_result', tool_use_id: toolUseId, content })),
+    },
+  };
+}
+
+describe('toolResultChars', () => {
+  test('counts string content', () => {
+    expect(toolResultChars('hello')).toBe(5);
+  });
+
+  test('sums text blocks and ignores other block types', () => {
+    expect(toolResultChars([
+      { type: 'text', text: 'abc' },
+      { type: 'image', source: { data: 'x'.repeat(100) } },
+      { type: 'text', text: 'de' },
+    ])).toBe(5);
+  });
+
+  test('returns 0 for missing content', () => {
+    expect(toolResultChars(undefined)).toBe(0);
+  });
+});
+
+describe('trackToolUse', () => {
+  test('does not double count a tool_use repeated across streamed entries', () => {
+    const state = createToolUseState();
+    const block = { type: 'tool_use', id: 'toolu_1', name: 'Grep', input: {} };
+    trackToolUse(state, assistant('msg_1', [block]), '');
+    trackToolUse(state, assistant('msg_1', [block]), '');
+
+    expect(toolMetadata(state, 'msg_1')).toEqual({ toolUses: { Grep: 1 } });
+  });
+
+  test('attributes results with an unseen tool_use_id to unknown', () => {
+    const state = createToolUseState();
+    trackToolUse(state, toolResults(['toolu_missing', 'abc']), '');
+    trackToolUse(state, assistant('msg_2', []), '');
+
+    expect(toolMetadata(state, 'msg_2')).toEqual({ toolResults: { unknown: { count: 1, chars: 3 } } });
+  });
+
+  test('keeps pending results separate per conversation chain', () => {
+    const state = createToolUseState();
+    trackToolUse(state, assistant('msg_main', [{ type: 'tool_use', id: 'toolu_main', name: 'Bash' }]), '');
+    trackToolUse(state, assistant('msg_side', [{ type: 'tool_use', id: 'toolu_side', name: 'Read' }]), 'root-1');
+    trackToolUse(state, toolResults(['toolu_side', 'side output']), 'root-1');
+    trackToolUse(state, toolResults(['toolu_main', 'out']), '');
+    trackToolUse(state, assistant('msg_main_next', []), '');
+    trackToolUse(state, assistant('msg_side_next', []), 'root-1');
+
+    expect(toolMetadata(state, 'msg_main_next')).toEqual({ toolResults: { Bash: { count: 1, chars: 3 } } });
+    expect(toolMetadata(state, 'msg_side_next')).toEqual({ toolResults: { Read: { count: 1, chars: 11 } } });
+  });
+
+  test('returns empty metadata for turns without tools', () => {
+    const state = createToolUseState();
+    trackToolUse(state, assistant('msg_1', [{ type: 'text', text: 'hi' }]), '');
+    expect(toolMetadata(state, 'msg_1')).toEqual({});
+  });
+});
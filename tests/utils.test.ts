@@ -1,5 +1,14 @@
 import { describe, test, expect } from 'bun:test';
-import { decodeProjectDirName, extractProjectPath } from '../src/utils.ts';
+import {
+  decodeProjectDirName,
+  extractCwds,
+  extractGitBranches,
+  extractProjectPath,
+  extractSlug,
+  splitCacheWrite,
+  trackSidechainRoot,
+  type SidechainRoots,
+} from '../src/utils.ts';
 
 describe('decodeProjectDirName', () => {
   test('decodes leading-dash path to absolute path', () => {
@@ -58,3 +67,116 @@ describe('extractProjectPath', () => {
     expect(extractProjectPath([{ cwd: '  /Users/test/project  ' }])).toBe('/Users/test/project');
   });
 });
+
+describe('splitCacheWrite', () => {
+  const baseUsage = {
+    input_tokens: 3,
+    output_tokens: 10,
+    cache_read_input_tokens: 0,
+  };
+
+  test('uses reported ephemeral buckets', () => {
+    expect(splitCacheWrite({
+      ...baseUsage,
+      cache_creation_input_tokens: 1500,
+      cache_creation: { ephemeral_5m_input_tokens: 500, ephemeral_1h_input_tokens: 1000 },
+    })).toEqual({ ephemeral5m: 500, ephemeral1h: 1000, inferred: false });
+  });
+
+  test('falls back to 5m bucket when breakdown is missing', () => {
+    expect(splitCacheWrite({ ...baseUsage, cache_creation_input_tokens: 1297 }))
+      .toEqual({ ephemeral5m: 1297, ephemeral1h: 0, inferred: true });
+  });
+
+  test('keeps the combined count authoritative when buckets disagree', () => {
+    expect(splitCacheWrite({
+      ...baseUsage,
+      cache_creation_input_tokens: 800,
+      cache_creation: { ephemeral_5m_input_tokens: 100, ephemeral_1h_input_tokens: 1000 },
+    })).toEqual({ ephemeral5m: 0, ephemeral1h: 800, inferred: false });
+  });
+});
+
+describe('trackSidechainRoot', () => {
+  test('returns undefined for main-thread entries', () => {
+    const roots: SidechainRoots = new Map();
+    expect(trackSidechainRoot(roots, { uuid: 'u1', parentUuid: null, isSidechain: false })).toBeUndefined();
+    expect(roots.size).toBe(0);
+  });
+
+  test('treats a sidechain entry with a main-thread parent as the root', () => {
+    const roots: SidechainRoots = new Map();
+    trackSidechainRoot(roots, { uuid: 'main-1', parentUuid: null, isSidechain: false });
+    expect(trackSidechainRoot(roots, { uuid: 'side-1', parentUuid: 'main-1', isSidechain: true })).toBe('side-1');
+  });
+
+  test('resolves descendants to the first sidechain entry of the chain', () => {
+    const roots: SidechainRoots = new Map();
+    trackSidechainRoot(roots, { uuid: 'side-1', parentUuid: null, isSidechain: true });
+    trackSidechainRoot(roots, { uuid: 'side-2', parentUuid: 'side-1', isSidechain: true });
+    expect(trackSidechainRoot(roots, { uuid: 'side-3', parentUuid: 'side-2', isSidechain: true })).toBe('side-1');
+  });
+
+  test('keeps separate roots for separate subagent invocations', () => {
+    const roots: SidechainRoots = new Map();
+    trackSidechainRoot(roots, { uuid: 'a-1', parentUuid: null, isSidechain: true });
+    trackSidechainRoot(roots, { uuid: 'b-1', parentUuid: null, isSidechain: true });
+    expect(trackSidechainRoot(roots, { uuid: 'a-2', parentUuid: 'a-1', isSidechain: true })).toBe('a-1');
+    expect(trackSidechainRoot(roots, { uuid: 'b-2', parentUuid: 'b-1', isSidechain: true })).toBe('b-1');
+  });
+
+  test('ignores non-object entries', () => {
+    const roots: SidechainRoots = new Map();
+    expect(trackSidechainRoot(roots, null)).toBeUndefined();
+    expect(trackSidechainRoot(roots, 'text')).toBeUndefined();
+  });
+});
+
+describe('extractSlug', () => {
+  test('extracts slug from last entry with slug', () => {
+    expect(extractSlug([{ slug: 'first-slug' }, { slug: 'last-slug' }])).toBe('last-slug');
+  });
+
+  test('returns undefined for empty array', () => {
+    expect(extractSlug([])).toBeUndefined();
+  });
+
+  test('returns undefined when no entries have slug', () => {
+    expect(extractSlug([{}, { type: 'user' }])).toBeUndefined();
+  });
+
+  test('skips null slugs', () => {
+    expect(extractSlug([{ slug: 'valid-slug' }, { slug: null }])).toBe('valid-slug');
+  });
+
+  test('skips empty string slugs', () => {
+    expect(extractSlug([{ slug: 'valid-slug' }, { slug: '' }])).toBe('valid-slug');
+  });
+});
+
+describe('extractCwds', () => {
+  test('returns distinct non-empty cwds in order of first appearance', () => {
+    expect(extractCwds([
+      { cwd: '/Users/test/project' },
+      {},
+      { cwd: '  ' },
+      { cwd: '/Users/test/project/src' },
+      { cwd: '/Users/test/project' },
+    ])).toEqual(['/Users/test/project', '/Users/test/project/src']);
+  });
+});
+
+describe('extractGitBranches', () => {
+  test('returns distinct branches in order of first appearance', () => {
+    expect(extractGitBranches([
+      { gitBranch: 'main' },
+      { gitBranch: 'feat/a' },
+      { gitBranch: 'main' },
+      { gitBranch: 'feat/b' },
+    ])).toEqual(['main', 'feat/a', 'feat/b']);
+  });
+
+  test('skips entries without a branch', () => {
+    expect(extractGitBranches([{}, { gitBranch: '' }, { gitBranch: '  ' }])).toEqual([]);
+  });
+});
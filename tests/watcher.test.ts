@@ -1,17 +1,40 @@
-import { describe, test, expect } from 'bun:test';
-import type { ActivityUpdate } from '@tokentop/plugin-sdk';
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { ActivityUpdate, AgentFetchContext } from '@tokentop/plugin-sdk';
+import type { BudgetAlert, ClaudeCodeActivityUpdate, SessionLifecycleEvent } from '../src/types.ts';
+import { clearBudgets, onBudgetAlert, resetBudgetUsage, setBudgets } from '../src/budgets.ts';
+import { getBurnRates, resetBurnRates } from '../src/rates.ts';
 import {
-  isTokenBearingAssistant as watcherIsTokenBearing,
-  toTimestamp as watcherToTimestamp,
+  DEFAULT_POLL_INTERVAL_MS,
+  activityWatcher,
+  checkWatchHealth,
+  configurePolling,
+  configureSessionIdleTimeout,
+  configureWatchDebounce,
   consumeForceFullReconciliation,
+  getWatchMode,
+  noteWatchError,
+  onSessionLifecycle,
+  pollSessionFiles,
+  scheduleJsonlDelta,
+  processJsonlDelta,
+  startActivityWatch,
+  startSessionWatcher,
   stopSessionWatcher,
   stopActivityWatch,
   sessionWatcher,
+  watchHealth,
+  watchMetrics,
+  watcherCore,
+  watchProjectDir,
   RECONCILIATION_INTERVAL_MS,
+  WATCH_RECOVERY_SCANS,
 } from '../src/watcher.ts';
-import {
-  isTokenBearingAssistant as parserIsTokenBearing,
-} from '../src/parser.ts';
+import { sessionAggregateCache, sessionCache, sessionMetadataIndex } from '../src/cache.ts';
+import { parseSessionFileRows, parseSessionsFromProjects } from '../src/parser.ts';
+import { configureClaudeCodeHomes } from '../src/paths.ts';
 import type { ClaudeCodeAssistantEntry } from '../src/types.ts';
 
 function makeAssistantEntry(overrides?: {
@@ -21,27 +44,33 @@ function makeAssistantEntry(overrides?: {
   output_tokens?: number;
   cache_read_input_tokens?: number;
   cache_creation_input_tokens?: number;
+  cache_creation?: { ephemeral_5m_input_tokens: number; ephemeral_1h_input_tokens: number };
   timestamp?: string;
+  uuid?: string;
+  parentUuid?: string | null;
+  isSidechain?: boolean;
+  gitBranch?: string;
+  content?: ClaudeCodeAssistantEntry['message']['content'];
 }): ClaudeCodeAssistantEntry {
   return {
     type: 'assistant',
-    uuid: 'uuid-1',
-    parentUuid: null,
+    uuid: overrides?.uuid ?? 'uuid-1',
+    parentUuid: overrides?.parentUuid ?? null,
     sessionId: 'ses-1',
     timestamp: overrides?.timestamp ?? '2026-02-15T14:19:00.000Z',
     cwd: '/Users/test/project',
     slug: 'my-project',
-    isSidechain: false,
+    isSidechain: overrides?.isSidechain ?? false,
     userType: 'external',
     version: '1.0.0',
-    gitBranch: 'main',
+    gitBranch: overrides?.gitBranch ?? 'main',
     requestId: 'req-1',
     message: {
       model: overrides?.model ?? 'claude-opus-4-6',
       id: overrides?.id ?? 'msg_001',
       type: 'message',
       role: 'assistant',
-      content: [{ type: 'text', text: 'Hello' }],
+      content: overrides?.content ?? [{ type: 'text', text: 'Hello' }],
       stop_reason: 'end_turn',
       stop_sequence: null,
       usage: {
@@ -49,202 +78,788 @@ function makeAssistantEntry(overrides?: {
         output_tokens: overrides?.output_tokens ?? 954,
         cache_creation_input_tokens: overrides?.cache_creation_input_tokens ?? 1297,
         cache_read_input_tokens: overrides?.cache_read_input_tokens ?? 17890,
+        ...(overrides?.cache_creation ? { cache_creation: overrides.cache_creation } : {}),
       },
     },
   };
 }
 
-function breakType(entry: ClaudeCodeAssistantEntry, path: string, value: unknown): unknown {
-  const clone = JSON.parse(JSON.stringify(entry)) as Record<string, unknown>;
-  const parts = path.split('.');
-  let target = clone;
-  for (let i = 0; i < parts.length - 1; i++) {
-    target = target[parts[i]!] as Record<string, unknown>;
-  }
-  target[parts[parts.length - 1]!] = value;
-  return clone;
-}
+describe('consumeForceFullReconciliation', () => {
+  test('returns false when not forced', () => {
+    consumeForceFullReconciliation();
+    expect(consumeForceFullReconciliation()).toBe(false);
+  });
 
-function mapTokensLikeWatcher(entry: ClaudeCodeAssistantEntry): ActivityUpdate['tokens'] {
-  const tokens: ActivityUpdate['tokens'] = {
-    input: entry.message.usage.input_tokens,
-    output: entry.message.usage.output_tokens,
-  };
-  if (entry.message.usage.cache_read_input_tokens > 0) {
-    tokens.cacheRead = entry.message.usage.cache_read_input_tokens;
-  }
-  if (entry.message.usage.cache_creation_input_tokens > 0) {
-    tokens.cacheWrite = entry.message.usage.cache_creation_input_tokens;
-  }
-  return tokens;
-}
+  test('returns false on consecutive calls', () => {
+    consumeForceFullReconciliation();
+    expect(consumeForceFullReconciliation()).toBe(false);
+    expect(consumeForceFullReconciliation()).toBe(false);
+  });
+});
 
-describe('watcher isTokenBearingAssistant (duplicate drift detection)', () => {
-  test('accepts a valid assistant entry', () => {
-    expect(watcherIsTokenBearing(makeAssistantEntry())).toBe(true);
+describe('watcher constants', () => {
+  test('RECONCILIATION_INTERVAL_MS is 10 minutes', () => {
+    expect(RECONCILIATION_INTERVAL_MS).toBe(10 * 60 * 1000);
   });
+});
 
-  test('rejects null and undefined', () => {
-    expect(watcherIsTokenBearing(null)).toBe(false);
-    expect(watcherIsTokenBearing(undefined)).toBe(false);
+describe('watcher lifecycle', () => {
+  test('stopSessionWatcher is idempotent', () => {
+    stopSessionWatcher();
+    stopSessionWatcher();
+    expect(sessionWatcher.started).toBe(false);
+    expect(watcherCore.refCount).toBe(0);
+    expect(watcherCore.projectWatchers.size).toBe(0);
+    expect(watcherCore.rootWatchers.size).toBe(0);
+    expect(sessionWatcher.dirtyPaths.size).toBe(0);
+    expect(sessionWatcher.reconciliationTimer).toBeNull();
   });
 
-  test('rejects non-object types', () => {
-    expect(watcherIsTokenBearing(42)).toBe(false);
-    expect(watcherIsTokenBearing('assistant')).toBe(false);
+  test('stopActivityWatch is idempotent', () => {
+    stopActivityWatch();
+    stopActivityWatch();
   });
+});
+
+describe('processJsonlDelta', () => {
+  let tmpHome: string;
+  let filePath: string;
+  let updates: ActivityUpdate[];
 
-  test('rejects entries with wrong type field', () => {
-    expect(watcherIsTokenBearing({ type: 'user', message: {} })).toBe(false);
+  const line = (entry: unknown): string => `${JSON.stringify(entry)}\n`;
+
+  beforeEach(async () => {
+    tmpHome = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-activity-'));
+    const projectDir = path.join(tmpHome, 'projects', '-Users-test-project');
+    await fs.mkdir(projectDir, { recursive: true });
+    filePath = path.join(projectDir, 'ses-delta.jsonl');
+    await fs.writeFile(filePath, line(makeAssistantEntry({ id: 'msg_existing' })));
+
+    updates = [];
+    configureClaudeCodeHomes({ configDirs: tmpHome });
+    await startActivityWatch((update) => updates.push(update));
   });
 
-  test('rejects entries with input_tokens <= 0', () => {
-    expect(watcherIsTokenBearing(makeAssistantEntry({ input_tokens: 0 }))).toBe(false);
-    expect(watcherIsTokenBearing(makeAssistantEntry({ input_tokens: -1 }))).toBe(false);
+  afterEach(async () => {
+    stopActivityWatch();
+    configureClaudeCodeHomes({});
+    await fs.rm(tmpHome, { recursive: true, force: true });
   });
 
-  test('rejects entries with empty message.id', () => {
-    expect(watcherIsTokenBearing(makeAssistantEntry({ id: '' }))).toBe(false);
+  test('ignores content that existed before the watch started', async () => {
+    await processJsonlDelta(filePath);
+    expect(updates).toHaveLength(0);
   });
 
-  test('rejects entries with missing usage', () => {
-    expect(watcherIsTokenBearing(breakType(makeAssistantEntry(), 'message.usage', undefined))).toBe(false);
+  test('skips messages a resumed transcript copies from a file the parser has read', async () => {
+    const ctx = {
+      config: {},
+      logger: { debug() {}, info() {}, warn() {}, error() {} },
+    } as unknown as AgentFetchContext;
+    const oldPath = path.join(path.dirname(filePath), 'ses-old.jsonl');
+    await fs.writeFile(oldPath, line(makeAssistantEntry({ id: 'm1', uuid: 'u1' })) + line(makeAssistantEntry({ id: 'm2', uuid: 'u2' })));
+
+    try {
+      await parseSessionsFromProjects({}, ctx);
+
+      const resumedPath = path.join(path.dirname(filePath), 'ses-resumed.jsonl');
+      await fs.writeFile(resumedPath, [
+        line(makeAssistantEntry({ id: 'm1', uuid: 'u1' })),
+        line(makeAssistantEntry({ id: 'm2', uuid: 'u2' })),
+        line(makeAssistantEntry({ id: 'm3', uuid: 'u3' })),
+      ].join(''));
+      await processJsonlDelta(resumedPath);
+    } finally {
+      stopSessionWatcher();
+      sessionAggregateCache.clear();
+      sessionMetadataIndex.clear();
+      sessionCache.lastCheck = 0;
+    }
+
+    expect(updates.map((update) => update.messageId)).toEqual(['m3']);
   });
 
-  test('matches parser isTokenBearingAssistant on all edge cases', () => {
-    const cases: unknown[] = [
-      makeAssistantEntry(),
-      makeAssistantEntry({ input_tokens: 0 }),
-      makeAssistantEntry({ id: '' }),
-      makeAssistantEntry({ output_tokens: 0 }),
-      makeAssistantEntry({ cache_read_input_tokens: 0, cache_creation_input_tokens: 0 }),
-      null,
-      undefined,
-      42,
-      'assistant',
-      { type: 'user' },
-      { type: 'assistant' },
-      { type: 'assistant', message: 'string' },
-      breakType(makeAssistantEntry(), 'message.model', ''),
-      breakType(makeAssistantEntry(), 'message.usage', null),
-      breakType(makeAssistantEntry(), 'message.usage.output_tokens', 'bad'),
-      breakType(makeAssistantEntry(), 'message.usage.cache_read_input_tokens', undefined),
-      breakType(makeAssistantEntry(), 'message.id', undefined),
-    ];
+  test('continues from the parser state instead of replaying the transcript', async () => {
+    const ctx = {
+      config: {},
+      logger: { debug() {}, info() {}, warn() {}, error() {} },
+    } as unknown as AgentFetchContext;
+    const toolUse = line(makeAssistantEntry({
+      id: 'msg_tool',
+      uuid: 'u1',
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: {} }],
+    }));
+    const toolResult = line({
+      type: 'user',
+      uuid: 'u2',
+      parentUuid: 'u1',
+      message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'abc' }] },
+    });
+
+    stopActivityWatch();
+    await fs.writeFile(filePath, toolUse + toolResult);
+    try {
+      await parseSessionsFromProjects({}, ctx);
+      await startActivityWatch((update) => updates.push(update));
 
-    for (const input of cases) {
-      expect(watcherIsTokenBearing(input)).toBe(parserIsTokenBearing(input));
+      // A replay would no longer find the tool name in the blanked-out first line.
+      await fs.writeFile(filePath, `${' '.repeat(toolUse.length - 1)}\n${toolResult}`);
+      await fs.appendFile(filePath, line(makeAssistantEntry({ id: 'msg_next', uuid: 'u3', parentUuid: 'u2' })));
+      await processJsonlDelta(filePath);
+    } finally {
+      stopSessionWatcher();
+      sessionAggregateCache.clear();
+      sessionMetadataIndex.clear();
+      sessionCache.lastCheck = 0;
     }
+
+    expect(updates.map((update) => [update.messageId, (update as ClaudeCodeActivityUpdate).metadata.toolResults])).toEqual([
+      ['msg_next', { Read: { count: 1, chars: 3 } }],
+    ]);
   });
-});
 
-describe('watcher toTimestamp (Date.now fallback)', () => {
-  test('parses valid ISO 8601 string', () => {
-    expect(watcherToTimestamp('2026-02-15T14:19:00.000Z')).toBe(Date.parse('2026-02-15T14:19:00.000Z'));
+  test('skips messages a resumed transcript copies from a file seen live', async () => {
+    await fs.appendFile(filePath, line(makeAssistantEntry({ id: 'm1', uuid: 'u1' })));
+    await processJsonlDelta(filePath);
+
+    const resumedPath = path.join(path.dirname(filePath), 'ses-resumed.jsonl');
+    await fs.writeFile(resumedPath, line(makeAssistantEntry({ id: 'm1', uuid: 'u1' })) + line(makeAssistantEntry({ id: 'm3', uuid: 'u3' })));
+    await processJsonlDelta(resumedPath);
+    await fs.appendFile(resumedPath, line(makeAssistantEntry({ id: 'm3', uuid: 'u3', output_tokens: 500 })));
+    await processJsonlDelta(resumedPath);
+
+    expect(updates.map((update) => update.messageId)).toEqual(['m1', 'm3', 'm3']);
+  });
+
+  test('flags the first turn after a compaction with context sizes inferred from earlier usage', async () => {
+    await fs.appendFile(filePath, line({
+      type: 'system',
+      subtype: 'compact_boundary',
+      uuid: 'boundary-1',
+      parentUuid: null,
+      timestamp: '2026-02-15T15:00:00.000Z',
+      compactMetadata: { trigger: 'auto' },
+    }) + line(makeAssistantEntry({ id: 'msg_after', input_tokens: 10, cache_read_input_tokens: 0, cache_creation_input_tokens: 4000 })));
+    await processJsonlDelta(filePath);
+
+    expect(updates).toHaveLength(1);
+    expect((updates[0] as ClaudeCodeActivityUpdate).metadata.compaction).toEqual({
+      timestamp: Date.parse('2026-02-15T15:00:00.000Z'),
+      trigger: 'auto',
+      preTokens: 3 + 17890 + 1297,
+      preTokensInferred: true,
+      postTokens: 4010,
+    });
+  });
+
+  test('reassembles lines appended one byte at a time', async () => {
+    const content = line(makeAssistantEntry({ id: 'msg_a', output_tokens: 11 })) +
+      line(makeAssistantEntry({ id: 'msg_b', output_tokens: 22 }));
+
+    for (let i = 0; i < content.length; i++) {
+      await fs.appendFile(filePath, content[i]!);
+      await processJsonlDelta(filePath);
+    }
+
+    expect(updates.map((update) => update.messageId)).toEqual(['msg_a', 'msg_b']);
+    expect(updates.map((update) => update.tokens.output)).toEqual([11, 22]);
   });
 
-  test('returns a finite number close to now for undefined', () => {
-    const before = Date.now();
-    const result = watcherToTimestamp(undefined);
-    const after = Date.now();
-    expect(Number.isFinite(result)).toBe(true);
-    expect(result).toBeGreaterThanOrEqual(before);
-    expect(result).toBeLessThanOrEqual(after);
+  test('reassembles a line split across two appends', async () => {
+    const content = line(makeAssistantEntry({ id: 'msg_split' }));
+    await fs.appendFile(filePath, content.slice(0, 25));
+    await processJsonlDelta(filePath);
+    expect(updates).toHaveLength(0);
+
+    await fs.appendFile(filePath, content.slice(25));
+    await processJsonlDelta(filePath);
+    expect(updates.map((update) => update.messageId)).toEqual(['msg_split']);
+  });
+
+  test('retries the same bytes after the transcript could not be opened', async () => {
+    const content = line(makeAssistantEntry({ id: 'msg_retried' }));
+    await fs.appendFile(filePath, content.slice(0, 25));
+    await processJsonlDelta(filePath);
+
+    await fs.appendFile(filePath, content.slice(25));
+    const open = spyOn(fs, 'open').mockRejectedValueOnce(Object.assign(new Error('EMFILE'), { code: 'EMFILE' }));
+    try {
+      await processJsonlDelta(filePath);
+    } finally {
+      open.mockRestore();
+    }
+    expect(updates).toHaveLength(0);
+
+    await processJsonlDelta(filePath);
+    expect(updates.map((update) => update.messageId)).toEqual(['msg_retried']);
   });
 
-  test('returns a finite number close to now for invalid date', () => {
-    const before = Date.now();
-    const result = watcherToTimestamp('not-a-date');
-    const after = Date.now();
-    expect(result).toBeGreaterThanOrEqual(before);
-    expect(result).toBeLessThanOrEqual(after);
+  test('serializes overlapping deltas so a range is read once', async () => {
+    await fs.appendFile(filePath, line(makeAssistantEntry({ id: 'msg_once' })));
+    await Promise.all([processJsonlDelta(filePath), processJsonlDelta(filePath), processJsonlDelta(filePath)]);
+    expect(updates.map((update) => update.messageId)).toEqual(['msg_once']);
   });
 
-  test('handles date-only strings', () => {
-    const ts = watcherToTimestamp('2026-02-15');
-    expect(Number.isFinite(ts)).toBe(true);
-    expect(ts).toBeGreaterThan(0);
+  test('feeds live usage into budget alerts with the session project path', async () => {
+    const alerts: BudgetAlert[] = [];
+    const unsubscribe = onBudgetAlert((alert) => alerts.push(alert));
+    resetBudgetUsage();
+    setBudgets([{ id: 'project', scope: 'project', maxTokens: 1000 }]);
+
+    try {
+      await fs.appendFile(filePath, line(makeAssistantEntry({ id: 'msg_budget', timestamp: new Date().toISOString() })));
+      await processJsonlDelta(filePath);
+    } finally {
+      unsubscribe();
+      clearBudgets();
+      resetBudgetUsage();
+    }
+
+    expect(alerts.map((alert) => [alert.key, alert.level])).toEqual([['/Users/test/project', 'exceeded']]);
+  });
+
+  test('updates the session burn rate on every delta', async () => {
+    resetBurnRates();
+    try {
+      await fs.appendFile(filePath, line(makeAssistantEntry({ id: 'msg_rate', timestamp: new Date().toISOString() })));
+      await processJsonlDelta(filePath);
+
+      const [rate] = getBurnRates();
+      expect(rate?.sessionId).toBe('ses-delta');
+      expect(rate?.projectPath).toBe('/Users/test/project');
+      expect(rate?.windows[0]?.messageCount).toBe(1);
+    } finally {
+      resetBurnRates();
+    }
+  });
+
+  test('restarts from the beginning after truncation', async () => {
+    await fs.writeFile(filePath, line(makeAssistantEntry({ id: 'msg_new' })));
+    await processJsonlDelta(filePath);
+    expect(updates.map((update) => update.messageId)).toEqual(['msg_new']);
   });
 });
 
-describe('watcher token mapping (processJsonlDelta parity)', () => {
-  test('maps input to input_tokens only (not summed with cache)', () => {
-    const tokens = mapTokensLikeWatcher(makeAssistantEntry({
-      input_tokens: 3,
-      output_tokens: 954,
-      cache_read_input_tokens: 17890,
-      cache_creation_input_tokens: 1297,
-    }));
-    expect(tokens.input).toBe(3);
-    expect(tokens.output).toBe(954);
+describe('session lifecycle events', () => {
+  let tmpHome: string;
+  let projectDir: string;
+  let existingPath: string;
+  let events: SessionLifecycleEvent[];
+  let unsubscribe: () => void;
+
+  const line = (entry: unknown): string => `${JSON.stringify(entry)}\n`;
+  const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+  const summarize = (event: SessionLifecycleEvent) => ({
+    type: event.type,
+    sessionId: event.sessionId,
+    projectPath: event.projectPath,
+    sessionName: event.sessionName,
+  });
+
+  beforeEach(async () => {
+    tmpHome = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-lifecycle-'));
+    projectDir = path.join(tmpHome, 'projects', '-Users-test-project');
+    await fs.mkdir(projectDir, { recursive: true });
+    existingPath = path.join(projectDir, 'ses-existing.jsonl');
+    await fs.writeFile(existingPath, line(makeAssistantEntry({ id: 'msg_existing' })));
+
+    events = [];
+    unsubscribe = onSessionLifecycle((event) => events.push(event));
+    configureClaudeCodeHomes({ configDirs: tmpHome });
+    configureSessionIdleTimeout({ sessionIdleMinutes: 60 });
+    await startActivityWatch(() => {});
+  });
+
+  afterEach(async () => {
+    unsubscribe();
+    stopActivityWatch();
+    configureSessionIdleTimeout({});
+    configureClaudeCodeHomes({});
+    await fs.rm(tmpHome, { recursive: true, force: true });
+  });
+
+  test('reports a new transcript as started with its project path and slug', async () => {
+    const newPath = path.join(projectDir, 'ses-new.jsonl');
+    await fs.writeFile(newPath, line(makeAssistantEntry({ id: 'msg_new' })));
+    await processJsonlDelta(newPath);
+    await fs.appendFile(newPath, line(makeAssistantEntry({ id: 'msg_next' })));
+    await processJsonlDelta(newPath);
+
+    expect(events.map(summarize)).toEqual([
+      { type: 'started', sessionId: 'ses-new', projectPath: '/Users/test/project', sessionName: 'my-project' },
+    ]);
+    expect(events[0]!.filePath).toBe(newPath);
+    expect(events[0]!.claudeHome).toBe(tmpHome);
   });
 
-  test('sets cacheRead when cache_read_input_tokens > 0', () => {
-    const tokens = mapTokensLikeWatcher(makeAssistantEntry({ cache_read_input_tokens: 17890 }));
-    expect(tokens.cacheRead).toBe(17890);
+  test('drops a delta that is still being read when the watch stops', async () => {
+    const updates: ActivityUpdate[] = [];
+    await startActivityWatch((update) => updates.push(update));
+    const newPath = path.join(projectDir, 'ses-late.jsonl');
+    await fs.writeFile(newPath, line(makeAssistantEntry({ id: 'msg_late' })));
+
+    const reads = watchMetrics.deltaReads;
+    const pending = processJsonlDelta(newPath);
+    while (watchMetrics.deltaReads === reads) {
+      await Promise.resolve();
+    }
+    stopActivityWatch();
+    await pending;
+
+    expect(updates).toEqual([]);
+    expect(events).toEqual([]);
+
+    await startActivityWatch((update) => updates.push(update));
+    await fs.appendFile(newPath, line(makeAssistantEntry({ id: 'msg_next' })));
+    await processJsonlDelta(newPath);
+    expect(updates.map((update) => update.messageId)).toEqual(['msg_next']);
+    expect(events.map((event) => event.type)).toEqual(['resumed']);
   });
 
-  test('sets cacheWrite when cache_creation_input_tokens > 0', () => {
-    const tokens = mapTokensLikeWatcher(makeAssistantEntry({ cache_creation_input_tokens: 1297 }));
-    expect(tokens.cacheWrite).toBe(1297);
+  test('reports appends to a transcript that existed before the watch as resumed', async () => {
+    await fs.appendFile(existingPath, line(makeAssistantEntry({ id: 'msg_more' })));
+    await processJsonlDelta(existingPath);
+
+    expect(events.map(summarize)).toEqual([
+      { type: 'resumed', sessionId: 'ses-existing', projectPath: '/Users/test/project', sessionName: 'my-project' },
+    ]);
   });
 
-  test('omits cacheRead when cache_read_input_tokens is 0', () => {
-    const tokens = mapTokensLikeWatcher(makeAssistantEntry({ cache_read_input_tokens: 0 }));
-    expect(tokens.cacheRead).toBeUndefined();
+  test('reports idle after the timeout and resumed on the next append', async () => {
+    configureSessionIdleTimeout({ sessionIdleMinutes: 0.0005 });
+    const newPath = path.join(projectDir, 'ses-idle.jsonl');
+    await fs.writeFile(newPath, line(makeAssistantEntry({ id: 'msg_first' })));
+    await processJsonlDelta(newPath);
+    expect(activityWatcher.messageOwners.get('msg_first')).toBe(newPath);
+    await sleep(80);
+    expect(activityWatcher.messageOwners.size).toBe(0);
+
+    await fs.appendFile(newPath, line(makeAssistantEntry({ id: 'msg_second' })));
+    await processJsonlDelta(newPath);
+
+    expect(events.map((event) => event.type)).toEqual(['started', 'idle', 'resumed']);
   });
 
-  test('omits cacheWrite when cache_creation_input_tokens is 0', () => {
-    const tokens = mapTokensLikeWatcher(makeAssistantEntry({ cache_creation_input_tokens: 0 }));
-    expect(tokens.cacheWrite).toBeUndefined();
+  test('reports deleted transcripts once', async () => {
+    await fs.rm(existingPath);
+    await processJsonlDelta(existingPath);
+    await processJsonlDelta(existingPath);
+
+    expect(events.map(summarize)).toEqual([
+      { type: 'deleted', sessionId: 'ses-existing', projectPath: undefined, sessionName: undefined },
+    ]);
   });
 
-  test('real-world token breakdown matches parser expectations', () => {
-    const tokens = mapTokensLikeWatcher(makeAssistantEntry({
-      input_tokens: 3,
-      output_tokens: 11,
-      cache_read_input_tokens: 17890,
-      cache_creation_input_tokens: 1297,
-    }));
-    expect(tokens.input).toBe(3);
-    expect(tokens.output).toBe(11);
-    expect(tokens.cacheRead).toBe(17890);
-    expect(tokens.cacheWrite).toBe(1297);
+  test('stops delivering events after unsubscribing', async () => {
+    unsubscribe();
+    await fs.appendFile(existingPath, line(makeAssistantEntry({ id: 'msg_more' })));
+    await processJsonlDelta(existingPath);
+
+    expect(events).toHaveLength(0);
   });
 });
 
-describe('consumeForceFullReconciliation', () => {
-  test('returns false when not forced', () => {
-    consumeForceFullReconciliation();
-    expect(consumeForceFullReconciliation()).toBe(false);
+describe('shared watcher core', () => {
+  let tmpHome: string;
+  let projectDir: string;
+
+  beforeEach(async () => {
+    tmpHome = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-core-'));
+    projectDir = path.join(tmpHome, 'projects', '-Users-test-project');
+    await fs.mkdir(projectDir, { recursive: true });
+    configureClaudeCodeHomes({ configDirs: tmpHome });
   });
 
-  test('returns false on consecutive calls', () => {
-    consumeForceFullReconciliation();
-    expect(consumeForceFullReconciliation()).toBe(false);
-    expect(consumeForceFullReconciliation()).toBe(false);
+  afterEach(async () => {
+    stopActivityWatch();
+    stopSessionWatcher();
+    configureClaudeCodeHomes({});
+    await fs.rm(tmpHome, { recursive: true, force: true });
   });
-});
 
-describe('watcher constants', () => {
-  test('RECONCILIATION_INTERVAL_MS is 10 minutes', () => {
-    expect(RECONCILIATION_INTERVAL_MS).toBe(10 * 60 * 1000);
+  test('watches each directory once for both consumers', async () => {
+    startSessionWatcher();
+    await startActivityWatch(() => {});
+
+    expect(watcherCore.refCount).toBe(2);
+    expect([...watcherCore.rootWatchers.keys()]).toEqual([path.join(tmpHome, 'projects')]);
+    expect([...watcherCore.projectWatchers.keys()]).toEqual([projectDir]);
+  });
+
+  test('keeps the session watcher running after the activity watch stops', async () => {
+    startSessionWatcher();
+    await startActivityWatch(() => {});
+    stopActivityWatch();
+
+    expect(sessionWatcher.started).toBe(true);
+    expect(watcherCore.refCount).toBe(1);
+    expect(watcherCore.projectWatchers.size).toBe(1);
+
+    stopSessionWatcher();
+    expect(watcherCore.refCount).toBe(0);
+    expect(watcherCore.projectWatchers.size).toBe(0);
+    expect(watcherCore.rootWatchers.size).toBe(0);
+  });
+
+  test('ignores stops from a consumer that was not started', async () => {
+    await startActivityWatch(() => {});
+    stopSessionWatcher();
+
+    expect(watcherCore.refCount).toBe(1);
+    expect(watcherCore.projectWatchers.size).toBe(1);
+  });
+
+  test('marks changed files dirty for the parser', async () => {
+    startSessionWatcher();
+    await startActivityWatch(() => {});
+    const filePath = path.join(projectDir, 'ses-dirty.jsonl');
+    await fs.writeFile(filePath, '{}\n');
+
+    for (let i = 0; i < 50 && !sessionWatcher.dirtyPaths.has(filePath); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(sessionWatcher.dirtyPaths.has(filePath)).toBe(true);
+  });
+
+  test('watches a project directory again after its watcher fails', async () => {
+    await startActivityWatch(() => {});
+    const watcher = watcherCore.projectWatchers.get(projectDir)!;
+
+    watcher.emit('error', Object.assign(new Error('gone'), { code: 'ENOENT' }));
+    expect(watcherCore.projectWatchers.has(projectDir)).toBe(false);
+
+    watchProjectDir(projectDir);
+    expect(watcherCore.projectWatchers.get(projectDir)).toBeDefined();
+    expect(watcherCore.projectWatchers.get(projectDir)).not.toBe(watcher);
+    expect(getWatchMode().mode).toBe('watch');
   });
 });
 
-describe('watcher lifecycle', () => {
-  test('stopSessionWatcher is idempotent', () => {
+describe('polling fallback', () => {
+  let tmpHome: string;
+  let projectDir: string;
+  let filePath: string;
+
+  const errnoError = (code: string): NodeJS.ErrnoException => Object.assign(new Error(code), { code });
+  const silenceProjectWatcher = (): void => {
+    watcherCore.projectWatchers.get(projectDir)!.close();
+  };
+
+  beforeEach(async () => {
+    tmpHome = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-polling-'));
+    projectDir = path.join(tmpHome, 'projects', '-Users-test-project');
+    await fs.mkdir(projectDir, { recursive: true });
+    filePath = path.join(projectDir, 'ses-poll.jsonl');
+    await fs.writeFile(filePath, '{}\n');
+    configureClaudeCodeHomes({ configDirs: tmpHome });
+    startSessionWatcher();
+    await startActivityWatch(() => {});
+  });
+
+  afterEach(async () => {
+    stopActivityWatch();
     stopSessionWatcher();
+    configurePolling({});
+    configureClaudeCodeHomes({});
+    await fs.rm(tmpHome, { recursive: true, force: true });
+  });
+
+  test('starts in watch mode with the default polling interval', () => {
+    expect(getWatchMode()).toEqual({ mode: 'watch', pollIntervalMs: DEFAULT_POLL_INTERVAL_MS });
+  });
+
+  test('reads the polling interval from config', () => {
+    configurePolling({ pollIntervalSeconds: 10 });
+    expect(getWatchMode().pollIntervalMs).toBe(10_000);
+  });
+
+  test('switches to polling when the watch limit is exhausted', () => {
+    noteWatchError(errnoError('ENOENT'));
+    expect(getWatchMode().mode).toBe('watch');
+
+    noteWatchError(errnoError('ENOSPC'));
+    expect(getWatchMode()).toMatchObject({ mode: 'poll', reason: 'fs.watch failed with ENOSPC' });
+    expect(getWatchMode().since).toBeNumber();
+  });
+
+  test('switches to polling when a file changed without any watch event', async () => {
+    silenceProjectWatcher();
+    await checkWatchHealth();
+
+    await fs.appendFile(filePath, '{}\n');
+    await checkWatchHealth();
+    expect(getWatchMode().mode).toBe('watch');
+
+    await fs.appendFile(filePath, '{}\n');
+    const past = new Date(Date.now() - 60_000);
+    await fs.utimes(filePath, past, past);
+    await checkWatchHealth();
+    expect(getWatchMode()).toMatchObject({ mode: 'poll', reason: 'no fs.watch events for changed session files' });
+    expect(sessionWatcher.dirtyPaths.has(filePath)).toBe(true);
+  });
+
+  test('marks changed and deleted files dirty while polling', async () => {
+    silenceProjectWatcher();
+    noteWatchError(errnoError('EMFILE'));
+    const otherPath = path.join(projectDir, 'ses-other.jsonl');
+    await fs.writeFile(otherPath, '{}\n');
+    await pollSessionFiles();
+    sessionWatcher.dirtyPaths.clear();
+
+    await fs.appendFile(filePath, '{}\n');
+    await pollSessionFiles();
+    expect([...sessionWatcher.dirtyPaths]).toEqual([filePath]);
+
+    sessionWatcher.dirtyPaths.clear();
+    await fs.rm(otherPath);
+    await pollSessionFiles();
+    expect([...sessionWatcher.dirtyPaths]).toEqual([otherPath]);
+  });
+
+  test('checks watch health only while the activity watch runs', () => {
+    expect(watchHealth.healthTimer).not.toBeNull();
+
+    stopActivityWatch();
+    expect(watchHealth.healthTimer).toBeNull();
+  });
+
+  test('returns to watch mode once watch events keep up with the polls', async () => {
+    noteWatchError(errnoError('EMFILE'));
+    await pollSessionFiles();
+
+    for (let scan = 0; scan < WATCH_RECOVERY_SCANS; scan++) {
+      expect(getWatchMode().mode).toBe('poll');
+      await fs.appendFile(filePath, '{}\n');
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(watchHealth.eventsSinceScan.has(filePath)).toBe(true);
+      await pollSessionFiles();
+    }
+
+    expect(getWatchMode().mode).toBe('watch');
+    expect(getWatchMode().reason).toBeUndefined();
+    expect(watchHealth.pollTimer).toBeNull();
+    expect(watchHealth.healthTimer).not.toBeNull();
+  });
+
+  test('returns to watch mode once every watcher stops', () => {
+    noteWatchError(errnoError('EMFILE'));
+    stopActivityWatch();
+    expect(getWatchMode().mode).toBe('poll');
+
     stopSessionWatcher();
-    expect(sessionWatcher.started).toBe(false);
-    expect(sessionWatcher.projectWatchers.size).toBe(0);
-    expect(sessionWatcher.rootWatcher).toBeNull();
-    expect(sessionWatcher.dirtyPaths.size).toBe(0);
-    expect(sessionWatcher.reconciliationTimer).toBeNull();
+    expect(getWatchMode().mode).toBe('watch');
   });
+});
 
-  test('stopActivityWatch is idempotent', () => {
+describe('debounced delta reads', () => {
+  let tmpHome: string;
+  let projectDir: string;
+  let filePath: string;
+  let updates: ActivityUpdate[];
+  let debugLogs: Array<{ message: string; data?: Record<string, unknown> }>;
+
+  const line = (entry: unknown): string => `${JSON.stringify(entry)}\n`;
+  const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+  const logger = {
+    debug: (message: string, data?: Record<string, unknown>) => debugLogs.push({ message, data }),
+    info() {},
+    warn() {},
+    error() {},
+  };
+
+  beforeEach(async () => {
+    tmpHome = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-debounce-'));
+    projectDir = path.join(tmpHome, 'projects', '-Users-test-project');
+    await fs.mkdir(projectDir, { recursive: true });
+    filePath = path.join(projectDir, 'ses-burst.jsonl');
+    await fs.writeFile(filePath, line(makeAssistantEntry({ id: 'msg_existing' })));
+
+    updates = [];
+    debugLogs = [];
+    configureClaudeCodeHomes({ configDirs: tmpHome });
+    configureWatchDebounce({ watchDebounceMs: 30, watchMaxLatencyMs: 100 });
+    await startActivityWatch((update) => updates.push(update), logger);
+    watcherCore.projectWatchers.get(projectDir)!.close();
+  });
+
+  afterEach(async () => {
+    stopActivityWatch();
+    configureWatchDebounce({});
+    configureClaudeCodeHomes({});
+    await fs.rm(tmpHome, { recursive: true, force: true });
+  });
+
+  test('reads a burst of events once', async () => {
+    const before = { ...watchMetrics };
+    await fs.appendFile(filePath, line(makeAssistantEntry({ id: 'msg_burst' })));
+    for (let i = 0; i < 50; i++) {
+      scheduleJsonlDelta(filePath);
+    }
+    await sleep(80);
+
+    expect(updates.map((update) => update.messageId)).toEqual(['msg_burst']);
+    expect(watchMetrics.eventsReceived - before.eventsReceived).toBe(50);
+    expect(watchMetrics.eventsCoalesced - before.eventsCoalesced).toBe(49);
+    expect(watchMetrics.deltaReads - before.deltaReads).toBe(1);
+  });
+
+  test('reads a steady stream at least once per max latency', async () => {
+    const before = watchMetrics.deltaReads;
+    for (let i = 0; i < 40; i++) {
+      scheduleJsonlDelta(filePath);
+      await sleep(10);
+    }
+
+    expect(watchMetrics.deltaReads - before).toBeGreaterThanOrEqual(2);
+  });
+
+  test('logs event and read counts through the debug logger when the watch stops', async () => {
+    for (let i = 0; i < 5; i++) {
+      scheduleJsonlDelta(filePath);
+    }
+    await sleep(80);
+    stopActivityWatch();
+
+    expect(debugLogs).toEqual([
+      { message: 'Claude Code: activity watch events', data: { eventsReceived: 5, eventsCoalesced: 4, deltaReads: 1 } },
+    ]);
+  });
+
+  test('drops pending reads when the watch stops', async () => {
+    const before = watchMetrics.deltaReads;
+    scheduleJsonlDelta(filePath);
     stopActivityWatch();
+    await sleep(80);
+
+    expect(watchMetrics.deltaReads).toBe(before);
+  });
+});
+
+describe('watcher replay parity with parseSessionFileRows', () => {
+  const SEEDS = [1, 7, 42, 1337, 20260215];
+  const MODELS = ['claude-opus-4-6', 'claude-sonnet-4-5-20250929', 'claude-haiku-4-5-20251001', 'claude-unreleased-9'];
+  const BRANCHES = ['main', 'feat/pricing', 'fix/watcher'];
+  const TOOLS = ['Bash', 'Read', 'Grep'];
+
+  let tmpHome: string;
+  let filePath: string;
+  let updates: ClaudeCodeActivityUpdate[];
+
+  function createRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+      state = (state + 0x6d2b79f5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  function generateLines(random: () => number): string[] {
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)]!;
+    const count = 30 + Math.floor(random() * 40);
+    const lines: string[] = [];
+    let parentUuid: string | null = null;
+    let messageCount = 0;
+    const toolUseIds: string[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const uuid = `u-${i}`;
+      const isSidechain = random() < 0.3;
+      const roll = random();
+
+      if (roll < 0.1) {
+        lines.push('{"type":"assistant","message":');
+        continue;
+      }
+
+      if (roll < 0.25) {
+        const content = toolUseIds.length > 0 && random() < 0.7
+          ? [{ type: 'tool_result', tool_use_id: pick(toolUseIds), content: 'x'.repeat(Math.floor(random() * 500)) }]
+          : 'go';
+        lines.push(JSON.stringify({ type: 'user', uuid, parentUuid, isSidechain, gitBranch: pick(BRANCHES), message: { role: 'user', content } }));
+      } else {
+        if (random() < 0.6) messageCount++;
+        const cacheWrite = Math.floor(random() * 4000);
+        const oneHour = Math.floor(random() * cacheWrite);
+        const content = random() < 0.4
+          ? [{ type: 'tool_use', id: `toolu_${i}`, name: pick(TOOLS), input: {} }]
+          : [{ type: 'text', text: 'ok' }];
+        if (content[0]!.type === 'tool_use') toolUseIds.push(`toolu_${i}`);
+        lines.push(JSON.stringify(makeAssistantEntry({
+          id: `msg_${messageCount}`,
+          uuid,
+          parentUuid,
+          isSidechain,
+          model: pick(MODELS),
+          content,
+          gitBranch: pick(BRANCHES),
+          input_tokens: random() < 0.05 ? 0 : 1 + Math.floor(random() * 50),
+          output_tokens: Math.floor(random() * 2000),
+          cache_read_input_tokens: Math.floor(random() * 50000),
+          cache_creation_input_tokens: cacheWrite,
+          ...(random() < 0.5 ? { cache_creation: { ephemeral_5m_input_tokens: cacheWrite - oneHour, ephemeral_1h_input_tokens: oneHour } } : {}),
+          timestamp: new Date(Date.UTC(2026, 1, 15, 14, 0, i)).toISOString(),
+        })));
+      }
+      parentUuid = uuid;
+    }
+
+    return lines;
+  }
+
+  function perMessageView(row: { tokens: unknown; timestamp: number; cost?: number; metadata?: Record<string, unknown> }) {
+    const { sessionCwds: _cwds, sessionGitBranches: _branches, launchPath: _launch, claudeHome: _home, messageId: _messageId, ...metadata } = row.metadata ?? {};
+    return { tokens: row.tokens, timestamp: row.timestamp, cost: row.cost, metadata };
+  }
+
+  beforeEach(async () => {
+    tmpHome = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-replay-'));
+    const projectDir = path.join(tmpHome, 'projects', '-Users-test-project');
+    await fs.mkdir(projectDir, { recursive: true });
+    filePath = path.join(projectDir, 'ses-replay.jsonl');
+    await fs.writeFile(filePath, '');
+
+    updates = [];
+    configureClaudeCodeHomes({ configDirs: tmpHome });
+    await startActivityWatch((update) => updates.push(update as ClaudeCodeActivityUpdate));
+  });
+
+  afterEach(async () => {
     stopActivityWatch();
+    configureClaudeCodeHomes({});
+    await fs.rm(tmpHome, { recursive: true, force: true });
   });
+
+  for (const seed of SEEDS) {
+    test(`random transcript appended in random chunks agrees with batch parse (seed ${seed})`, async () => {
+      const random = createRandom(seed);
+      const content = `${generateLines(random).join('\n')}\n`;
+
+      let position = 0;
+      while (position < content.length) {
+        const size = 1 + Math.floor(random() * 300);
+        await fs.appendFile(filePath, content.slice(position, position + size));
+        await processJsonlDelta(filePath);
+        position += size;
+      }
+
+      const entries: unknown[] = [];
+      for (const line of content.split('\n')) {
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+        }
+      }
+      const rows = parseSessionFileRows('ses-replay', Date.now(), entries);
+
+      const latestByMessage = new Map<string, ClaudeCodeActivityUpdate>();
+      for (const update of updates) {
+        latestByMessage.set(update.messageId, update);
+      }
+
+      expect(rows.length).toBeGreaterThan(0);
+      expect(Array.from(latestByMessage.values()).map(perMessageView)).toEqual(rows.map(perMessageView));
+    });
+  }
 });
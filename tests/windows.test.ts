@@ -0,0 +1,78 @@
+import { describe, test, expect } from 'bun:test';
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import { USAGE_WINDOW_MS, computeUsageWindows } from '../src/windows.ts';
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+const BASE = Date.UTC(2026, 1, 15, 9, 0, 0);
+
+function makeRow(overrides: Partial<SessionUsageData> & { timestamp: number }): SessionUsageData {
+  return {
+    sessionId: 'ses-1',
+    providerId: 'anthropic',
+    modelId: 'claude-opus-4-6',
+    tokens: { input: 10, output: 100, cacheRead: 1000, cacheWrite: 50 },
+    ...overrides,
+  };
+}
+
+describe('computeUsageWindows', () => {
+  test('starts a window at the hour of its first message and reports the time left', () => {
+    const report = computeUsageWindows([
+      makeRow({ timestamp: BASE + 20 * MINUTE, cost: 0.5 }),
+      makeRow({ timestamp: BASE + 2 * HOUR, modelId: 'claude-sonnet-4-5', sessionId: 'ses-2', cost: 0.25 }),
+      makeRow({ timestamp: BASE + 3 * HOUR }),
+    ], BASE + 4 * HOUR);
+
+    expect(report.history).toEqual([]);
+    expect(report.current).toMatchObject({
+      startedAt: BASE,
+      endsAt: BASE + USAGE_WINDOW_MS,
+      firstActivityAt: BASE + 20 * MINUTE,
+      lastActivityAt: BASE + 3 * HOUR,
+      messageCount: 3,
+      tokens: { input: 30, output: 300, cacheRead: 3000, cacheWrite: 150 },
+      cost: 0.75,
+      remainingMs: HOUR,
+    });
+    expect(report.current?.models['claude-opus-4-6']).toEqual({
+      messageCount: 2,
+      tokens: { input: 20, output: 200, cacheRead: 2000, cacheWrite: 100 },
+      cost: 0.5,
+    });
+    expect(report.current?.models['claude-sonnet-4-5']?.messageCount).toBe(1);
+  });
+
+  test('opens a new window with the first message after a reset and lists past windows newest first', () => {
+    const report = computeUsageWindows([
+      makeRow({ timestamp: BASE + 7 * HOUR + 45 * MINUTE }),
+      makeRow({ timestamp: BASE }),
+      makeRow({ timestamp: BASE + 4 * HOUR + 59 * MINUTE }),
+      makeRow({ timestamp: BASE + 5 * HOUR }),
+    ], BASE + 8 * HOUR);
+
+    expect(report.current?.startedAt).toBe(BASE + 5 * HOUR);
+    expect(report.current?.messageCount).toBe(2);
+    expect(report.history.map((window) => [window.startedAt, window.messageCount])).toEqual([[BASE, 2]]);
+  });
+
+  test('has no current window once the last one has reset', () => {
+    const report = computeUsageWindows([
+      makeRow({ timestamp: BASE }),
+      makeRow({ timestamp: BASE + 6 * HOUR }),
+    ], BASE + 12 * HOUR);
+
+    expect(report.current).toBeUndefined();
+    expect(report.history.map((window) => window.startedAt)).toEqual([BASE + 6 * HOUR, BASE]);
+  });
+
+  test('leaves out windows that ended before since', () => {
+    const report = computeUsageWindows([
+      makeRow({ timestamp: BASE }),
+      makeRow({ timestamp: BASE + 6 * HOUR }),
+    ], BASE + 12 * HOUR, BASE + 5 * HOUR);
+
+    expect(report.history.map((window) => window.startedAt)).toEqual([BASE + 6 * HOUR]);
+    expect(computeUsageWindows([], BASE)).toEqual({ history: [] });
+  });
+});